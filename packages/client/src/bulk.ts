@@ -0,0 +1,59 @@
+/**
+ * Bulk Runner
+ *
+ * Runs per-item requests in sequential chunks with bounded concurrency,
+ * collecting successes and VibeError failures separately.
+ */
+
+import type { BulkOptions, BulkResult } from './types';
+import { VibeError } from './error';
+
+const DEFAULT_CHUNK_SIZE = 50;
+const DEFAULT_CONCURRENCY = 5;
+
+export interface BulkItem<I> {
+  index: number;
+  id?: string | number;
+  input: I;
+}
+
+/**
+ * Run `worker` over every item and collect per-item results
+ *
+ * Results are ordered by input index. A failing item never stops the batch.
+ */
+export async function runBulk<I, R>(
+  items: ReadonlyArray<BulkItem<I>>,
+  worker: (input: I) => Promise<R>,
+  options: BulkOptions = {}
+): Promise<BulkResult<R>> {
+  const chunkSize = Math.max(1, options.chunkSize ?? DEFAULT_CHUNK_SIZE);
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+  const result: BulkResult<R> = { succeeded: [], failed: [] };
+
+  for (let start = 0; start < items.length; start += chunkSize) {
+    const chunk = items.slice(start, start + chunkSize);
+    let next = 0;
+
+    const lane = async () => {
+      while (next < chunk.length) {
+        const item = chunk[next++];
+        try {
+          const data = await worker(item.input);
+          // Created documents only get their id from the response
+          const id = item.id ?? (data as { id?: string | number } | null)?.id;
+          result.succeeded.push({ index: item.index, id, data });
+        } catch (error) {
+          result.failed.push({ index: item.index, id: item.id, error: VibeError.fromError(error) });
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, chunk.length) }, lane));
+  }
+
+  result.succeeded.sort((a, b) => a.index - b.index);
+  result.failed.sort((a, b) => a.index - b.index);
+
+  return result;
+}
@@ -4,21 +4,45 @@
  * Main client factory and implementation.
  */
 
-import type { VibeClient, VibeClientConfig, Collection } from './types';
+import type {
+  VibeClient,
+  VibeClientConfig,
+  Collection,
+  RetryOptions,
+  VibeMiddleware,
+  VibeTransport,
+  VibePolicies,
+  PolicyUser,
+} from './types';
 import { CollectionImpl } from './collection';
 import { AdminClientImpl } from './admin';
+import { DEFAULT_RETRY_OPTIONS, createFetchTransport } from './http';
 
 // Internal resolved config type with all fields required
 export interface ResolvedVibeConfig {
   apiUrl: string;
   idpUrl: string;
+  /** Same-origin route URL (route mode), or '' */
+  routeUrl: string;
   clientId: string;
   signingKey: string;
   defaultCollection: string;
   getAccessToken: () => Promise<string | null>;
+  /** Obtain a new token after a 401, or null when no token manager is configured */
+  refreshAccessToken: (() => Promise<string | null>) | null;
   debug: boolean;
   timeout: number;
-  /** True if using IDP proxy mode (idpUrl is set) */
+  /** Client-wide retry policy, or false when retries are disabled */
+  retry: Required<RetryOptions> | false;
+  /** Request middleware chain, shared by every accessor of a client */
+  middleware: VibeMiddleware[];
+  /** Transport used to deliver every request */
+  transport: VibeTransport;
+  /** Access policies by collection */
+  policies: VibePolicies;
+  /** Current user for policy checks */
+  getUser: () => Promise<PolicyUser | null>;
+  /** True if requests use proxy endpoints (idpUrl or routeUrl is set) */
   useProxy: boolean;
 }
 
@@ -41,8 +65,12 @@ export function resolveConfig(config?: VibeClientConfig): ResolvedVibeConfig {
     ''
   ).replace(/\/$/, '');
 
+  // Same-origin route (signs on the server, so the browser needs no key)
+  const routeUrl = (config?.routeUrl || '').replace(/\/$/, '');
+
   const clientId = config?.clientId || getEnv('VIBE_CLIENT_ID') || '';
   const signingKey = config?.signingKey || getEnv('VIBE_HMAC_KEY') || '';
+  const tokenManager = config?.tokenManager;
   const defaultCollection = config?.defaultCollection || getEnv('VIBE_COLLECTION') || 'vibe_app';
 
   // Direct Vibe URL (fallback when not using proxy)
@@ -53,8 +81,8 @@ export function resolveConfig(config?: VibeClientConfig): ResolvedVibeConfig {
     ''
   ).replace(/\/$/, '');
 
-  // Determine mode: proxy if idpUrl is set, otherwise direct
-  const useProxy = !!idpUrl;
+  // Determine mode: proxy endpoints if a route or idpUrl is set, otherwise direct
+  const useProxy = !!routeUrl || !!idpUrl;
 
   if (!useProxy && !apiUrl) {
     console.warn(
@@ -62,13 +90,14 @@ export function resolveConfig(config?: VibeClientConfig): ResolvedVibeConfig {
     );
   }
 
-  if (useProxy && !clientId) {
+  if (useProxy && !routeUrl && !clientId) {
     console.warn('[vibe] IDP proxy mode requires VIBE_CLIENT_ID to be set.');
   }
 
   if (config?.debug) {
     console.log('[vibe] Config resolved:', {
       useProxy,
+      routeUrl: routeUrl || 'empty',
       idpUrl: idpUrl ? 'set' : 'empty',
       clientId: clientId ? 'set' : 'empty',
       signingKey: signingKey ? 'set' : 'empty',
@@ -79,12 +108,21 @@ export function resolveConfig(config?: VibeClientConfig): ResolvedVibeConfig {
   return {
     apiUrl,
     idpUrl,
+    routeUrl,
     clientId,
     signingKey,
     defaultCollection,
-    getAccessToken: config?.getAccessToken || (async () => null),
+    getAccessToken: tokenManager
+      ? () => tokenManager.getAccessToken()
+      : config?.getAccessToken || (async () => null),
+    refreshAccessToken: tokenManager ? () => tokenManager.refresh() : null,
     debug: config?.debug ?? false,
     timeout: config?.timeout ?? 30000,
+    retry: config?.retry === false ? false : { ...DEFAULT_RETRY_OPTIONS, ...config?.retry },
+    middleware: [...(config?.middleware ?? [])],
+    transport: config?.transport ?? createFetchTransport(config?.fetch),
+    policies: config?.policies ?? {},
+    getUser: async () => (config?.getUser ? config.getUser() : null),
     useProxy,
   };
 }
@@ -132,6 +170,27 @@ class VibeClientImpl implements VibeClient {
 
     return collection;
   }
+
+  /**
+   * Append a middleware to the request pipeline
+   *
+   * Applies to every collection and admin request made by this client,
+   * including accessors created before the call.
+   *
+   * @example
+   * ```typescript
+   * const vibe = createVibeClient().use(async (ctx, next) => {
+   *   ctx.headers['X-Request-Id'] = crypto.randomUUID();
+   *   const response = await next();
+   *   audit(ctx.method, ctx.endpoint, response.status);
+   *   return response;
+   * });
+   * ```
+   */
+  use(middleware: VibeMiddleware): VibeClient {
+    this.config.middleware.push(middleware);
+    return this;
+  }
 }
 
 /**
@@ -164,6 +223,13 @@ export function createVibeClient(config?: VibeClientConfig): VibeClient {
   return new VibeClientImpl(resolvedConfig);
 }
 
+/**
+ * Create a client from a resolved configuration, with no environment lookup
+ */
+export function createResolvedVibeClient(config: ResolvedVibeConfig): VibeClient {
+  return new VibeClientImpl(config);
+}
+
 /**
  * Default client instance for convenience
  *
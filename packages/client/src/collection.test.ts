@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest';
+import { createMockVibeClient } from './testing';
+import type { ListResult } from './types';
+import { getDocumentVersion } from './version';
+
+const MODES = ['direct', 'proxy'] as const;
+
+type Row = {
+  id: number;
+  group: number;
+};
+
+// Ids out of insertion order, and long runs of equal `group` keys
+const rows: Row[] = Array.from({ length: 40 }, (_, i) => ({
+  id: ((i * 17) % 40) + 1,
+  group: Math.floor(i / 12),
+}));
+
+describe.each(MODES)('cursor paging (%s mode)', (mode) => {
+  const vibe = createMockVibeClient({ tables: { rows } }, { mode });
+
+  it.each([
+    ['id', 'asc', 7],
+    ['id', 'desc', 7],
+    ['group', 'asc', 5],
+    ['group', 'desc', 3],
+    ['group', 'asc', 25],
+  ] as const)('walks %s %s in pages of %i', async (orderBy, orderDir, limit) => {
+    const fetchPage = (cursor: string | null) =>
+      vibe.collection<Row>('rows').list({ orderBy, orderDir, limit, cursor });
+    const seen: Row[] = [];
+    const totals = new Set<number>();
+    let cursor: string | null = null;
+
+    do {
+      const before = vibe.requests.length;
+      const page: ListResult<Row> = await fetchPage(cursor);
+
+      expect(vibe.requests.length - before).toBeLessThanOrEqual(3);
+      expect(page.data.length).toBeLessThanOrEqual(limit);
+      seen.push(...page.data);
+      totals.add(page.pagination.total);
+      cursor = page.pagination.nextCursor ?? null;
+    } while (cursor);
+
+    const sign = orderDir === 'asc' ? 1 : -1;
+    const expected = [...rows].sort(
+      (a, b) => sign * (a[orderBy] - b[orderBy]) || sign * (a.id - b.id)
+    );
+    expect(seen.map((row) => row.id)).toEqual(expected.map((row) => row.id));
+    expect([...totals]).toEqual([rows.length]);
+  });
+
+  it('sends a single orderBy field', async () => {
+    await vibe.collection('rows').list({ orderBy: 'group', limit: 5, cursor: null });
+
+    for (const request of vibe.requests) {
+      const orderBy =
+        mode === 'proxy'
+          ? (request.body as { orderBy?: string }).orderBy
+          : new URL(request.endpoint, 'http://vibe.mock').searchParams.get('orderBy');
+      expect(orderBy).not.toContain(',');
+    }
+  });
+
+  it('rejects a cursor issued for another order', async () => {
+    const page = await vibe.collection('rows').list({ orderBy: 'id', limit: 5, cursor: null });
+
+    await expect(
+      vibe.collection('rows').list({ orderBy: 'group', cursor: page.pagination.nextCursor })
+    ).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+  });
+});
+
+describe.each(MODES)('offset paging (%s mode)', (mode) => {
+  const ordered = Array.from({ length: 23 }, (_, i) => ({ id: i + 1 }));
+  const vibe = createMockVibeClient({ tables: { ordered } }, { mode });
+
+  it.each([
+    [0, 5],
+    [5, 5],
+    [3, 5],
+    [7, 3],
+    [21, 5],
+    [25, 5],
+  ])('returns the rows at offset %i with limit %i', async (offset, limit) => {
+    const page = await vibe.collection('ordered').list({ orderBy: 'id', offset, limit });
+
+    expect(page.data).toEqual(ordered.slice(offset, offset + limit));
+    expect(page.pagination).toMatchObject({
+      total: 23,
+      offset,
+      limit,
+      hasMore: offset + limit < 23,
+    });
+  });
+});
+
+describe('proxy offset alignment', () => {
+  it('fetches the two pages covering a misaligned offset', async () => {
+    const ordered = Array.from({ length: 20 }, (_, i) => ({ id: i + 1 }));
+    const vibe = createMockVibeClient({ tables: { ordered } }, { mode: 'proxy' });
+
+    await vibe.collection('ordered').list({ orderBy: 'id', offset: 6, limit: 4 });
+
+    expect(vibe.requests.map((request) => request.body)).toEqual([
+      expect.objectContaining({ page: 2, pageSize: 4 }),
+      expect.objectContaining({ page: 3, pageSize: 4 }),
+    ]);
+  });
+
+  it('iterates from a misaligned offset one request per page', async () => {
+    const ordered = Array.from({ length: 20 }, (_, i) => ({ id: i + 1 }));
+    const vibe = createMockVibeClient({ tables: { ordered } }, { mode: 'proxy' });
+
+    const ids: number[] = [];
+    for await (const doc of vibe.collection<{ id: number }>('ordered').iterate({
+      orderBy: 'id',
+      offset: 3,
+      pageSize: 5,
+      prefetch: 0,
+    })) {
+      ids.push(doc.id);
+    }
+
+    expect(ids).toEqual(ordered.slice(3).map((doc) => doc.id));
+    expect(vibe.requests).toHaveLength(4);
+  });
+});
+
+describe.each(MODES)('If-Match (%s mode)', (mode) => {
+  const seed = { tables: { articles: [{ id: 1, title: 'Draft' }] } };
+
+  it('applies an update made against the current version', async () => {
+    const vibe = createMockVibeClient(seed, { mode });
+    const articles = vibe.collection<{ id: number; title: string }>('articles');
+    const article = await articles.get(1);
+
+    const updated = await articles.update(
+      1,
+      { title: 'Final' },
+      { ifMatch: getDocumentVersion(article) }
+    );
+
+    expect(updated).toEqual({ id: 1, title: 'Final' });
+    expect(vibe.requests.at(-1)?.headers?.['If-Match']).toBe('"1"');
+    expect(getDocumentVersion(updated)).toBe('"2"');
+  });
+
+  it('rejects a stale update with CONFLICT and the current version', async () => {
+    const vibe = createMockVibeClient(seed, { mode });
+    const articles = vibe.collection<{ id: number; title: string }>('articles');
+    const stale = await articles.get(1);
+    await articles.update(1, { title: 'Theirs' });
+
+    await expect(
+      articles.update(1, { title: 'Mine' }, { ifMatch: getDocumentVersion(stale) })
+    ).rejects.toMatchObject({
+      code: 'CONFLICT',
+      status: 412,
+      details: { currentVersion: '"2"' },
+    });
+    expect(vibe.server.table('articles')[0].title).toBe('Theirs');
+  });
+
+  it('rejects a stale delete', async () => {
+    const vibe = createMockVibeClient(seed, { mode });
+    const articles = vibe.collection('articles');
+    const stale = await articles.get(1);
+    await articles.update(1, { title: 'Theirs' });
+
+    await expect(articles.delete(1, { ifMatch: getDocumentVersion(stale) })).rejects.toMatchObject({
+      code: 'CONFLICT',
+    });
+    expect(vibe.server.table('articles')).toHaveLength(1);
+  });
+
+  it('finds the version of copies without adding fields to the document', async () => {
+    const vibe = createMockVibeClient(seed, { mode });
+    const article = await vibe.collection<{ id: number; title: string }>('articles').get(1);
+
+    expect(Object.keys(article!)).toEqual(['id', 'title']);
+    expect(getDocumentVersion({ ...article })).toBe(getDocumentVersion(article));
+    expect(getDocumentVersion(JSON.parse(JSON.stringify(article)))).toBe('"1"');
+  });
+});
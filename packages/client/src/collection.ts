@@ -5,10 +5,63 @@
  * Supports both direct API access and IDP proxy mode.
  */
 
-import type { Collection, ListOptions, ListResult } from './types';
+import type {
+  AggregateOptions,
+  AggregateRow,
+  BulkOptions,
+  BulkResult,
+  BulkTarget,
+  ChangeEvent,
+  Collection,
+  ExpandMap,
+  FieldName,
+  FieldValue,
+  FilterCondition,
+  FilterNode,
+  FilterOperator,
+  IterateOptions,
+  ListOptions,
+  ListResult,
+  OperatorValue,
+  Projected,
+  ProjectionOptions,
+  QueryBuilder,
+  RequestOptions,
+  SubscribeOptions,
+  UpsertResult,
+  VibeSubscription,
+  WriteOptions,
+} from './types';
 import type { ResolvedVibeConfig } from './client';
-import { httpRequest, parseResponse, convertFiltersToVibeFormat } from './http';
+import {
+  httpRequest,
+  parseResponse,
+  collectFilters,
+  toDirectConditions,
+  appendFilterParams,
+  abortedError,
+} from './http';
+import { QueryBuilderImpl } from './query';
+import { decodeCursor, encodeCursor, keyAfter, orderTiesById, tiedAfter } from './cursor';
+import { runBulk } from './bulk';
+import { openSubscription, type ServerSentEvent } from './realtime';
 import { VibeError } from './error';
+import { envelopeVersion, getDocumentVersion, setDocumentVersion, toEntityTag } from './version';
+import {
+  applyRowFilter,
+  authorizeCollection,
+  matchesFilter,
+  rowFilterError,
+  type PolicyOperation,
+} from './policy';
+
+/** Referenced ids fetched per expansion request */
+const EXPAND_BATCH_SIZE = 100;
+
+/** List options as sent over the wire, with the resolved field selection */
+type QueryOptions = ListOptions & { select?: readonly string[] };
+
+type DocumentRecord = Record<string, unknown>;
 
 export class CollectionImpl<T> implements Collection<T> {
   private readonly name: string;
@@ -23,16 +76,66 @@ export class CollectionImpl<T> implements Collection<T> {
 
   /**
    * List documents with optional pagination and filtering
+   *
+   * `select` limits the returned fields and `expand` replaces foreign keys with
+   * the referenced documents, fetched in one batched query per relation.
+   *
+   * @example
+   * ```typescript
+   * const { data } = await vibe.collection('projects').list({
+   *   select: ['id', 'name', 'owner_id'],
+   *   expand: { owner_id: 'users' },
+   * });
+   * ```
+   */
+  async list<const S extends FieldName<T> = never, const E extends ExpandMap = {}>(
+    options: ListOptions & ProjectionOptions<T, S, E> = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<ListResult<Projected<T, S, E>>> {
+    const { select, expand, ...listOptions } = options;
+    const page = await this.listDocuments(
+      { ...listOptions, select: fieldsToFetch(select, expand) },
+      requestOptions
+    );
+    const data = await this.project(page.data, select, expand, requestOptions);
+    return { ...page, data: data as Projected<T, S, E>[] };
+  }
+
+  /**
+   * Fetch a page of unprojected documents
    */
-  async list(options: ListOptions = {}): Promise<ListResult<T>> {
-    const { limit = 20, offset = 0, orderBy, orderDir, filter } = options;
+  private async listDocuments(
+    options: QueryOptions,
+    requestOptions: RequestOptions
+  ): Promise<ListResult<T>> {
+    const rowFilter = await this.authorize('read');
+    if (rowFilter) {
+      const where = [...(options.where ?? []), ...collectFilters(rowFilter, undefined)];
+      options = { ...options, where };
+    }
+
+    if (options.cursor !== undefined) {
+      // Keyset mode: works on top of either transport
+      return this.listByCursor(options, requestOptions);
+    }
 
     if (this.config.useProxy) {
       // Proxy mode: use POST query endpoint with filter format
-      return this.listViaQuery(options);
+      return this.listViaQuery(options, requestOptions);
     }
 
-    // Direct mode: use query string parameters
+    return this.listDirect(options, requestOptions);
+  }
+
+  /**
+   * List via query string parameters (for direct mode)
+   */
+  private async listDirect(
+    options: QueryOptions = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<ListResult<T>> {
+    const { limit = 20, offset = 0, orderBy, orderDir, filter, where, select } = options;
+
     const params = new URLSearchParams();
     params.set('limit', String(limit));
     params.set('offset', String(offset));
@@ -42,19 +145,20 @@ export class CollectionImpl<T> implements Collection<T> {
       params.set('orderDir', orderDir || 'asc');
     }
 
-    if (filter) {
-      for (const [key, value] of Object.entries(filter)) {
-        if (value !== undefined && value !== null) {
-          params.set(`filter[${key}]`, String(value));
-        }
-      }
+    if (select) {
+      params.set('select', select.join(','));
     }
 
+    appendFilterParams(params, toDirectConditions(collectFilters(filter, where)));
+
     const endpoint = `/v1/${this.name}?${params.toString()}`;
-    const response = await httpRequest(this.config, endpoint, { method: 'GET' });
+    const response = await httpRequest(this.config, endpoint, {
+      method: 'GET',
+      ...requestOptions,
+    });
     const body = await parseResponse<{ data: T[]; meta?: { total?: number } }>(response);
 
-    const data = Array.isArray(body) ? body : (body.data || []);
+    const data = this.unwrapDocuments(Array.isArray(body) ? body : (body.data || []));
     const total = body.meta?.total ?? data.length;
 
     return {
@@ -70,9 +174,48 @@ export class CollectionImpl<T> implements Collection<T> {
 
   /**
    * List via POST query endpoint (for proxy mode)
+   *
+   * The endpoint pages by number, so an offset that isn't a multiple of
+   * `limit` is served from the two pages covering it.
    */
-  private async listViaQuery(options: ListOptions = {}): Promise<ListResult<T>> {
-    const { limit = 20, offset = 0, orderBy, orderDir, filter } = options;
+  private async listViaQuery(
+    options: QueryOptions = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<ListResult<T>> {
+    const { limit = 20, offset = 0 } = options;
+    const skip = offset % limit;
+    const page = Math.floor(offset / limit) + 1;
+
+    const first = await this.queryPage(options, page, limit, requestOptions);
+    let data = first.data;
+
+    if (skip > 0 && first.data.length === limit) {
+      const second = await this.queryPage(options, page + 1, limit, requestOptions);
+      data = [...data, ...second.data];
+    }
+    data = data.slice(skip, skip + limit);
+
+    return {
+      data,
+      pagination: {
+        total: first.total,
+        limit,
+        offset,
+        hasMore: offset + data.length < first.total,
+      },
+    };
+  }
+
+  /**
+   * Fetch one numbered page from the POST query endpoint
+   */
+  private async queryPage(
+    options: QueryOptions,
+    page: number,
+    pageSize: number,
+    requestOptions: RequestOptions
+  ): Promise<{ data: T[]; total: number }> {
+    const { orderBy, orderDir, filter, where, select } = options;
 
     // Build query body in Vibe format
     const queryBody: {
@@ -80,10 +223,11 @@ export class CollectionImpl<T> implements Collection<T> {
       pageSize: number;
       orderBy?: string;
       orderDir?: 'asc' | 'desc';
-      filter?: Array<{ field: string; operator: string; value: unknown }>;
+      filter?: FilterNode[];
+      select?: string[];
     } = {
-      page: Math.floor(offset / limit) + 1,
-      pageSize: limit,
+      page,
+      pageSize,
     };
 
     if (orderBy) {
@@ -91,14 +235,22 @@ export class CollectionImpl<T> implements Collection<T> {
       queryBody.orderDir = orderDir || 'asc';
     }
 
-    if (filter && Object.keys(filter).length > 0) {
-      queryBody.filter = convertFiltersToVibeFormat(filter);
+    const filters = collectFilters(filter, where);
+    if (filters.length > 0) {
+      queryBody.filter = filters;
+    }
+
+    if (select) {
+      queryBody.select = [...select];
     }
 
     const endpoint = `/v1/collections/${this.collectionName}/tables/${this.name}/query`;
     const response = await httpRequest(this.config, endpoint, {
       method: 'POST',
       body: queryBody,
+      // Query is a read, so it is safe to retry despite using POST
+      idempotent: true,
+      ...requestOptions,
     });
 
     const body = await parseResponse<{
@@ -113,35 +265,157 @@ export class CollectionImpl<T> implements Collection<T> {
     const data = this.unwrapDocuments(body.data || body.items || body.documents || []);
     const total = body.meta?.total ?? body.meta?.totalCount ?? body.totalCount ?? data.length;
 
+    return { data, total };
+  }
+
+  /**
+   * Keyset pagination
+   *
+   * Starts strictly after the cursor row, so rows inserted while paging never
+   * shift or repeat results. The API sorts by one field, so rows tied with
+   * the cursor row are fetched first in id order, then rows with later sort
+   * keys. A page that would split a run of tied keys stops before it, so
+   * pages can be shorter than `limit`. Each page takes at most three requests.
+   */
+  private async listByCursor(
+    options: QueryOptions,
+    requestOptions: RequestOptions
+  ): Promise<ListResult<T>> {
+    const { cursor, limit = 20, orderBy = 'id', orderDir = 'asc', ...rest } = options;
+    const position = cursor ? decodeCursor(cursor, orderBy, orderDir) : null;
+
+    const fetchRows = (sortBy: string, conditions: FilterCondition[], count: number) => {
+      const query: QueryOptions = {
+        ...rest,
+        // The cursor is built from the sort key and id of the last row
+        select: rest.select && unique([...rest.select, orderBy, 'id']),
+        where: [...(rest.where ?? []), ...conditions],
+        orderBy: sortBy,
+        orderDir,
+        limit: count,
+        offset: 0,
+      };
+      return this.config.useProxy
+        ? this.listViaQuery(query, requestOptions)
+        : this.listDirect(query, requestOptions);
+    };
+
+    // Rows tied with the cursor row, in id order
+    const tiedConditions = position && tiedAfter(position);
+    const tied = tiedConditions ? await fetchRows('id', tiedConditions, limit + 1) : null;
+    let rows = tied?.data ?? [];
+    // Only a request without cursor conditions reports the real total
+    let total = position?.total ?? 0;
+    let hasMore = rows.length > limit;
+    // Whether the page ends partway through the last row's tied run
+    let splitsTies = hasMore;
+
+    if (orderBy === 'id') {
+      if (!position) {
+        const page = await fetchRows('id', [], limit + 1);
+        rows = page.data;
+        total = page.pagination.total;
+        hasMore = splitsTies = rows.length > limit;
+      }
+    } else {
+      // Rows with later sort keys; only the first `room` can go on this page
+      const room = Math.max(limit - rows.length, 0);
+      const later = await fetchRows(orderBy, position ? [keyAfter(position)] : [], room + 1);
+      if (!position) {
+        total = later.pagination.total;
+      }
+
+      if (later.data.length > room) {
+        hasMore = true;
+      }
+      if (room > 0 && later.data.length <= room) {
+        rows = [...rows, ...orderTiesById(later.data, orderBy, orderDir)];
+        splitsTies = false;
+      } else if (room > 0) {
+        // The API orders ties arbitrarily, so drop the run cut off at the page end
+        const cutKey = later.data[room][orderBy as keyof T];
+        const whole = later.data.slice(0, room).filter((row) => row[orderBy as keyof T] !== cutKey);
+
+        if (whole.length > 0 || rows.length > 0) {
+          rows = [...rows, ...orderTiesById(whole, orderBy, orderDir)];
+          splitsTies = false;
+        } else {
+          // One sort key fills the page: walk its rows in id order
+          const run = await fetchRows(
+            'id',
+            [{ field: orderBy, operator: 'eq', value: cutKey }],
+            limit + 1
+          );
+          rows = run.data;
+          splitsTies = rows.length > limit;
+          hasMore = splitsTies || later.pagination.total > rows.length;
+        }
+      }
+    }
+
+    const data = rows.slice(0, limit);
+
     return {
       data,
       pagination: {
         total,
         limit,
-        offset,
-        hasMore: offset + data.length < total,
+        offset: 0,
+        hasMore,
+        nextCursor: hasMore
+          ? encodeCursor(orderBy, orderDir, data[data.length - 1], total, !splitsTies)
+          : null,
       },
     };
   }
 
   /**
    * Get a single document by ID
+   *
+   * Accepts the same `select` and `expand` options as `list`.
    */
-  async get(id: string | number): Promise<T | null> {
-    const endpoint = this.config.useProxy
-      ? `/v1/collections/${this.collectionName}/tables/${this.name}/${id}`
-      : `/v1/${this.name}/${id}`;
+  async get<const S extends FieldName<T> = never, const E extends ExpandMap = {}>(
+    id: string | number,
+    options: RequestOptions & ProjectionOptions<T, S, E> = {}
+  ): Promise<Projected<T, S, E> | null> {
+    const { select, expand, ...requestOptions } = options;
+    const rowFilter = await this.authorize('read');
+    const fields = fieldsToFetch(select, expand);
 
-    try {
-      const response = await httpRequest(this.config, endpoint, { method: 'GET' });
-      const body = await parseResponse<{ data?: T } | T>(response);
+    const doc = await this.fetchDocument(
+      id,
+      // Row filter fields are needed to check the document
+      fields && rowFilter ? unique([...fields, ...Object.keys(rowFilter)]) : fields,
+      requestOptions
+    );
+    if (!doc || (rowFilter && !matchesFilter(doc as DocumentRecord, rowFilter))) {
+      return null;
+    }
 
-      // Handle envelope format
-      if (body && typeof body === 'object' && 'data' in body) {
-        return this.unwrapDocument(body.data) ?? null;
-      }
+    const [projected] = await this.project([doc], select, expand, requestOptions);
+    return projected as Projected<T, S, E>;
+  }
+
+  /**
+   * Fetch a single unprojected document, or null if it doesn't exist
+   */
+  private async fetchDocument(
+    id: string | number,
+    fields: readonly string[] | undefined,
+    requestOptions: RequestOptions
+  ): Promise<T | null> {
+    const query = fields ? `?${new URLSearchParams({ select: fields.join(',') }).toString()}` : '';
+    const endpoint = this.config.useProxy
+      ? `/v1/collections/${this.collectionName}/tables/${this.name}/${id}${query}`
+      : `/v1/${this.name}/${id}${query}`;
 
-      return this.unwrapDocument(body as T);
+    try {
+      const response = await httpRequest(this.config, endpoint, {
+        method: 'GET',
+        ...requestOptions,
+      });
+      const body = await parseResponse<unknown>(response);
+      return this.unwrapBody(body, response);
     } catch (error) {
       if (error instanceof VibeError && error.code === 'NOT_FOUND') {
         return null;
@@ -153,30 +427,42 @@ export class CollectionImpl<T> implements Collection<T> {
   /**
    * Create a new document
    */
-  async create(data: Partial<T>): Promise<T> {
+  async create(data: Partial<T>, requestOptions: RequestOptions = {}): Promise<T> {
+    const rowFilter = await this.authorize('write');
     const endpoint = this.config.useProxy
       ? `/v1/collections/${this.collectionName}/tables/${this.name}`
       : `/v1/${this.name}`;
 
     const response = await httpRequest(this.config, endpoint, {
       method: 'POST',
-      body: data,
+      body: rowFilter ? applyRowFilter(data, rowFilter, this.name) : data,
+      ...requestOptions,
     });
 
-    const body = await parseResponse<{ data?: T } | T>(response);
-
-    // Handle envelope format
-    if (body && typeof body === 'object' && 'data' in body) {
-      return this.unwrapDocument(body.data) as T;
-    }
-
-    return this.unwrapDocument(body as T) as T;
+    const body = await parseResponse<unknown>(response);
+    return this.unwrapBody(body, response) as T;
   }
 
   /**
    * Update an existing document
+   *
+   * Pass `ifMatch` to only apply the update if the server still has that
+   * version; otherwise the call fails with CONFLICT.
+   *
+   * @example
+   * ```typescript
+   * try {
+   *   await articles.update(id, changes, { ifMatch: getDocumentVersion(article) });
+   * } catch (error) {
+   *   if (error instanceof VibeError && error.code === 'CONFLICT') {
+   *     console.log('Changed by someone else, now at', error.details?.currentVersion);
+   *   }
+   * }
+   * ```
    */
-  async update(id: string | number, data: Partial<T>): Promise<T> {
+  async update(id: string | number, data: Partial<T>, options: WriteOptions = {}): Promise<T> {
+    const { ifMatch, ...requestOptions } = options;
+    await this.checkRowAccess(id, await this.authorize('write'), requestOptions, data);
     const endpoint = this.config.useProxy
       ? `/v1/collections/${this.collectionName}/tables/${this.name}/${id}`
       : `/v1/${this.name}/${id}`;
@@ -184,27 +470,764 @@ export class CollectionImpl<T> implements Collection<T> {
     const response = await httpRequest(this.config, endpoint, {
       method: 'PATCH',
       body: data,
+      headers: preconditionHeaders(ifMatch),
+      ...requestOptions,
     });
 
-    const body = await parseResponse<{ data?: T } | T>(response);
-
-    // Handle envelope format
-    if (body && typeof body === 'object' && 'data' in body) {
-      return this.unwrapDocument(body.data) as T;
-    }
-
-    return this.unwrapDocument(body as T) as T;
+    const body = await parseResponse<unknown>(response);
+    return this.unwrapBody(body, response) as T;
   }
 
   /**
    * Delete a document
+   *
+   * Pass `ifMatch` to only delete if the server still has that version.
    */
-  async delete(id: string | number): Promise<void> {
+  async delete(id: string | number, options: WriteOptions = {}): Promise<void> {
+    const { ifMatch, ...requestOptions } = options;
+    await this.checkRowAccess(id, await this.authorize('write'), requestOptions);
     const endpoint = this.config.useProxy
       ? `/v1/collections/${this.collectionName}/tables/${this.name}/${id}`
       : `/v1/${this.name}/${id}`;
 
-    await httpRequest(this.config, endpoint, { method: 'DELETE' });
+    await httpRequest(this.config, endpoint, {
+      method: 'DELETE',
+      headers: preconditionHeaders(ifMatch),
+      ...requestOptions,
+    });
+  }
+
+  /**
+   * Get the first document matching a filter
+   *
+   * @example
+   * ```typescript
+   * const user = await vibe.collection('profiles').findOne({ email: 'a@example.com' });
+   * ```
+   */
+  async findOne(
+    filter: Record<string, unknown>,
+    requestOptions: RequestOptions = {}
+  ): Promise<T | null> {
+    const { data } = await this.list({ filter, limit: 1 }, requestOptions);
+    return data[0] ?? null;
+  }
+
+  /**
+   * Return the document matching `filter`, creating it if none exists
+   *
+   * The created document combines the equality fields of `filter` with
+   * `defaults`. If a concurrent writer creates it first (CONFLICT), the
+   * winner's document is returned.
+   */
+  async findOrCreate(
+    filter: Record<string, unknown>,
+    defaults: Partial<T> = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<UpsertResult<T>> {
+    const existing = await this.findOne(filter, requestOptions);
+    if (existing) {
+      return { data: existing, created: false };
+    }
+
+    try {
+      const data = await this.create({ ...equalityFields(filter), ...defaults } as Partial<T>, requestOptions);
+      return { data, created: true };
+    } catch (error) {
+      const winner = await this.findAfterConflict(error, filter, requestOptions);
+      return { data: winner, created: false };
+    }
+  }
+
+  /**
+   * Update the document matching `match`, or create it
+   *
+   * The created document combines the equality fields of `match` with `data`.
+   * If a concurrent writer creates it first (CONFLICT), that document is
+   * updated instead.
+   *
+   * @example
+   * ```typescript
+   * const { data, created } = await vibe.collection('settings').upsert(
+   *   { user_id: userId, key: 'theme' },
+   *   { value: 'dark' }
+   * );
+   * ```
+   */
+  async upsert(
+    match: Record<string, unknown>,
+    data: Partial<T>,
+    requestOptions: RequestOptions = {}
+  ): Promise<UpsertResult<T>> {
+    const existing = await this.findOne(match, requestOptions);
+    if (existing) {
+      return { data: await this.update(documentId(existing), data, requestOptions), created: false };
+    }
+
+    try {
+      const created = await this.create({ ...equalityFields(match), ...data } as Partial<T>, requestOptions);
+      return { data: created, created: true };
+    } catch (error) {
+      const winner = await this.findAfterConflict(error, match, requestOptions);
+      return { data: await this.update(documentId(winner), data, requestOptions), created: false };
+    }
+  }
+
+  /**
+   * After a failed create, return the document a concurrent writer created.
+   * Rethrows the original error unless it was a CONFLICT with a findable winner.
+   */
+  private async findAfterConflict(
+    error: unknown,
+    filter: Record<string, unknown>,
+    requestOptions: RequestOptions
+  ): Promise<T> {
+    if (!(error instanceof VibeError) || error.code !== 'CONFLICT') {
+      throw error;
+    }
+
+    const winner = await this.findOne(filter, requestOptions);
+    if (!winner) {
+      throw error;
+    }
+    return winner;
+  }
+
+  /**
+   * Count documents matching a filter
+   *
+   * @example
+   * ```typescript
+   * const open = await vibe.collection('orders').count({ status: 'open' });
+   * ```
+   */
+  async count(
+    filter?: Record<string, unknown>,
+    requestOptions: RequestOptions = {}
+  ): Promise<number> {
+    const body = await this.runQuery<{ count?: number; total?: number; data?: { count?: number } }>(
+      'count',
+      { filter },
+      {},
+      requestOptions
+    );
+    return Number(body.count ?? body.data?.count ?? body.total ?? 0);
+  }
+
+  /**
+   * Compute count, sum, avg, min and max over matching documents
+   *
+   * @example
+   * ```typescript
+   * const rows = await vibe.collection('orders').aggregate({
+   *   filter: { status: 'paid' },
+   *   groupBy: ['region'],
+   *   sum: ['total'],
+   *   avg: ['total'],
+   * });
+   * rows[0].region;    // group value
+   * rows[0].count;     // documents in the group
+   * rows[0].sum.total; // number
+   * ```
+   */
+  async aggregate<
+    const G extends FieldName<T> = never,
+    const Sum extends FieldName<T> = never,
+    const Avg extends FieldName<T> = never,
+    const Min extends FieldName<T> = never,
+    const Max extends FieldName<T> = never,
+  >(
+    options: AggregateOptions<T, G, Sum, Avg, Min, Max>,
+    requestOptions: RequestOptions = {}
+  ): Promise<Array<AggregateRow<T, G, Sum, Avg, Min, Max>>> {
+    const { filter, where, groupBy, sum, avg, min, max } = options;
+    const body = await this.runQuery<unknown[] | { data?: unknown[]; groups?: unknown[] }>(
+      'aggregate',
+      { filter, where },
+      { groupBy, sum, avg, min, max },
+      requestOptions
+    );
+
+    const rows = Array.isArray(body) ? body : (body.data ?? body.groups ?? []);
+    return rows.map((row) => {
+      const record = (row ?? {}) as DocumentRecord;
+      return {
+        ...record,
+        count: Number(record.count ?? 0),
+        sum: aggregateValues(record.sum, sum, 0),
+        avg: aggregateValues(record.avg, avg, null),
+        min: aggregateValues(record.min, min, null),
+        max: aggregateValues(record.max, max, null),
+      };
+    }) as Array<AggregateRow<T, G, Sum, Avg, Min, Max>>;
+  }
+
+  /**
+   * Distinct values of a field among documents matching a filter
+   *
+   * @example
+   * ```typescript
+   * const categories = await vibe.collection('products').distinct('category', { status: 'active' });
+   * ```
+   */
+  async distinct<K extends FieldName<T>>(
+    field: K,
+    filter?: Record<string, unknown>,
+    requestOptions: RequestOptions = {}
+  ): Promise<Array<FieldValue<T, K>>> {
+    const body = await this.runQuery<unknown[] | { data?: unknown[]; values?: unknown[] }>(
+      'distinct',
+      { filter },
+      { field },
+      requestOptions
+    );
+
+    const values = Array.isArray(body) ? body : (body.data ?? body.values ?? []);
+    return values as Array<FieldValue<T, K>>;
+  }
+
+  /**
+   * Run a count/aggregate/distinct query
+   *
+   * Proxy mode POSTs to the table's `/query/{operation}` endpoint with filters
+   * in Vibe format; direct mode GETs `/v1/{name}/{operation}` with query params.
+   */
+  private async runQuery<R>(
+    operation: 'count' | 'aggregate' | 'distinct',
+    filters: Pick<ListOptions, 'filter' | 'where'>,
+    params: Record<string, string | readonly string[] | undefined>,
+    requestOptions: RequestOptions
+  ): Promise<R> {
+    const rowFilter = await this.authorize('read');
+    const nodes = [
+      ...collectFilters(filters.filter, filters.where),
+      ...collectFilters(rowFilter, undefined),
+    ];
+
+    if (this.config.useProxy) {
+      const body: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(params)) {
+        if (value !== undefined) {
+          body[key] = value;
+        }
+      }
+      if (nodes.length > 0) {
+        body.filter = nodes;
+      }
+
+      const endpoint = `/v1/collections/${this.collectionName}/tables/${this.name}/query/${operation}`;
+      const response = await httpRequest(this.config, endpoint, {
+        method: 'POST',
+        body,
+        // Reads, so safe to retry despite using POST
+        idempotent: true,
+        ...requestOptions,
+      });
+      return parseResponse<R>(response);
+    }
+
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (typeof value === 'string') {
+        search.set(key, value);
+      } else if (value && value.length > 0) {
+        search.set(key, value.join(','));
+      }
+    }
+    appendFilterParams(search, toDirectConditions(nodes));
+
+    const query = search.toString();
+    const endpoint = `/v1/${this.name}/${operation}${query ? `?${query}` : ''}`;
+    const response = await httpRequest(this.config, endpoint, {
+      method: 'GET',
+      ...requestOptions,
+    });
+    return parseResponse<R>(response);
+  }
+
+  /**
+   * Stream insert/update/delete events for documents matching a filter
+   *
+   * Uses server-sent events on the table's `/subscribe` endpoint (signed like
+   * any other request in proxy mode). The stream reconnects automatically and
+   * resumes after the last received event.
+   *
+   * @example
+   * ```typescript
+   * const subscription = vibe.collection('messages').subscribe(
+   *   { room_id: roomId },
+   *   (event) => {
+   *     if (event.type === 'insert') appendMessage(event.data);
+   *   }
+   * );
+   *
+   * // Later
+   * subscription.unsubscribe();
+   * ```
+   */
+  subscribe(
+    filter: Record<string, unknown> | null,
+    handler: (event: ChangeEvent<T>) => void,
+    options: SubscribeOptions = {}
+  ): VibeSubscription {
+    const filters = collectFilters(filter ?? undefined, undefined);
+
+    return openSubscription(
+      {
+        connect: async (lastEventId, signal) => {
+          const rowFilter = await this.authorize('read');
+          const nodes = [...filters, ...collectFilters(rowFilter, undefined)];
+          const headers: Record<string, string> = { Accept: 'text/event-stream' };
+          if (lastEventId) {
+            headers['Last-Event-ID'] = lastEventId;
+          }
+
+          if (this.config.useProxy) {
+            const endpoint = `/v1/collections/${this.collectionName}/tables/${this.name}/subscribe`;
+            return httpRequest(this.config, endpoint, {
+              method: 'POST',
+              body: nodes.length > 0 ? { filter: nodes } : {},
+              headers,
+              // Reconnects are handled by the subscription
+              retry: false,
+              signal,
+            });
+          }
+
+          const params = new URLSearchParams();
+          appendFilterParams(params, toDirectConditions(nodes));
+          const query = params.toString();
+          return httpRequest(this.config, `/v1/${this.name}/subscribe${query ? `?${query}` : ''}`, {
+            method: 'GET',
+            headers,
+            retry: false,
+            signal,
+          });
+        },
+        onEvent: (event) => {
+          const change = this.toChangeEvent(event);
+          if (change) {
+            handler(change);
+          }
+        },
+      },
+      options
+    );
+  }
+
+  /**
+   * Decode a change event; returns null for other events (e.g. pings)
+   *
+   * The change type comes from the SSE event name or the payload's `type`.
+   * The document may be the payload itself (a Vibe envelope) or its
+   * `document`/`data` field.
+   */
+  private toChangeEvent(event: ServerSentEvent): ChangeEvent<T> | null {
+    let payload: DocumentRecord;
+    try {
+      payload = JSON.parse(event.data);
+    } catch {
+      throw new VibeError({
+        code: 'SERVER_ERROR',
+        message: 'Invalid JSON in subscription event',
+        details: { event: event.event, data: event.data },
+      });
+    }
+
+    if (!payload || typeof payload !== 'object') {
+      return null;
+    }
+
+    const type = isChangeType(event.event) ? event.event : payload.type;
+    if (!isChangeType(type)) {
+      return null;
+    }
+
+    const source = 'document_id' in payload ? payload : (payload.document ?? payload.data);
+    const data = source ? this.unwrapDocument(source as T) : null;
+    const id = (payload.id ?? payload.document_id ?? (data as DocumentRecord | null)?.id) as
+      | string
+      | number
+      | undefined;
+
+    if (id === undefined || id === null) {
+      return null;
+    }
+
+    return {
+      type,
+      id,
+      ...(type !== 'delete' && data ? { data } : {}),
+      eventId: event.id,
+    };
+  }
+
+  /**
+   * Create many documents
+   *
+   * Items are sent in chunks of `chunkSize` with at most `concurrency`
+   * requests in flight. Failures are collected per item instead of rejecting.
+   *
+   * @example
+   * ```typescript
+   * const { succeeded, failed } = await vibe.collection('products').createMany(rows);
+   * failed.forEach(({ index, error }) => console.warn(`row ${index}: ${error.message}`));
+   * ```
+   */
+  async createMany(
+    items: ReadonlyArray<Partial<T>>,
+    options: BulkOptions = {}
+  ): Promise<BulkResult<T>> {
+    const { chunkSize, concurrency, ...requestOptions } = options;
+    return runBulk(
+      items.map((input, index) => ({ index, input })),
+      (input) => this.create(input, requestOptions),
+      { chunkSize, concurrency }
+    );
+  }
+
+  /**
+   * Apply the same partial update to many documents
+   *
+   * With a filter target, matching ids are resolved up front so updates that
+   * change filtered fields don't affect which documents are selected.
+   */
+  async updateMany(
+    target: BulkTarget,
+    data: Partial<T>,
+    options: BulkOptions = {}
+  ): Promise<BulkResult<T>> {
+    const { chunkSize, concurrency, ...requestOptions } = options;
+    const ids = await this.resolveBulkTarget(target, requestOptions);
+    return runBulk(
+      ids.map((id, index) => ({ index, id, input: id })),
+      (id) => this.update(id, data, requestOptions),
+      { chunkSize, concurrency }
+    );
+  }
+
+  /**
+   * Delete many documents
+   */
+  async deleteMany(
+    target: BulkTarget,
+    options: BulkOptions = {}
+  ): Promise<BulkResult<string | number>> {
+    const { chunkSize, concurrency, ...requestOptions } = options;
+    const ids = await this.resolveBulkTarget(target, requestOptions);
+    return runBulk(
+      ids.map((id, index) => ({ index, id, input: id })),
+      async (id) => {
+        await this.delete(id, requestOptions);
+        return id;
+      },
+      { chunkSize, concurrency }
+    );
+  }
+
+  /**
+   * Resolve a bulk target to document ids, walking filter matches by keyset
+   */
+  private async resolveBulkTarget(
+    target: BulkTarget,
+    requestOptions: RequestOptions
+  ): Promise<Array<string | number>> {
+    if ('ids' in target) {
+      return [...target.ids];
+    }
+
+    const ids: Array<string | number> = [];
+    const matches = this.iterate({
+      filter: target.filter,
+      where: target.where,
+      orderBy: 'id',
+      cursor: null,
+      pageSize: 200,
+      ...requestOptions,
+    });
+
+    for await (const doc of matches) {
+      const id = (doc as { id?: string | number }).id;
+      if (id !== undefined && id !== null) {
+        ids.push(id);
+      }
+    }
+
+    return ids;
+  }
+
+  /**
+   * Iterate over every matching document, fetching pages as needed
+   *
+   * @example
+   * ```typescript
+   * for await (const order of vibe.collection('orders').iterate({ filter: { status: 'open' } })) {
+   *   await process(order);
+   * }
+   * ```
+   */
+  async *iterate(options: IterateOptions = {}): AsyncGenerator<T> {
+    for await (const page of this.iteratePages(options)) {
+      yield* page.data;
+    }
+  }
+
+  /**
+   * Iterate over every page of matching documents
+   *
+   * Up to `prefetch` pages are requested ahead of the consumer (offset mode
+   * only; with `cursor` set, pages follow `nextCursor` one at a time). In proxy mode
+   * requests are aligned to `pageSize` so each page takes one request; a
+   * misaligned start offset is trimmed client-side.
+   */
+  async *iteratePages(options: IterateOptions = {}): AsyncGenerator<ListResult<T>> {
+    const { pageSize = 100, prefetch = 1, offset = 0, retry, signal, ...listOptions } = options;
+
+    if (!Number.isInteger(pageSize) || pageSize < 1) {
+      throw new VibeError({
+        code: 'VALIDATION_ERROR',
+        message: 'pageSize must be a positive integer',
+        details: { pageSize },
+      });
+    }
+
+    if (listOptions.cursor !== undefined) {
+      // Keyset mode: each page depends on the previous cursor, so no prefetch
+      let cursor: string | null = listOptions.cursor;
+      do {
+        if (signal?.aborted) {
+          throw abortedError();
+        }
+        const page = await this.list({ ...listOptions, cursor, limit: pageSize }, { retry, signal });
+        if (page.data.length > 0) {
+          yield page;
+        }
+        cursor = page.pagination.nextCursor ?? null;
+      } while (cursor);
+      return;
+    }
+
+    const skip = this.config.useProxy ? offset % pageSize : 0;
+    let nextOffset = offset - skip;
+    const pending: Array<{ offset: number; page: Promise<ListResult<T>> }> = [];
+
+    const fill = () => {
+      while (pending.length < Math.max(0, prefetch) + 1) {
+        const page = this.list({ ...listOptions, limit: pageSize, offset: nextOffset }, { retry, signal });
+        // Speculative pages may be discarded; keep their failures from going unhandled
+        page.catch(() => undefined);
+        pending.push({ offset: nextOffset, page });
+        nextOffset += pageSize;
+      }
+    };
+
+    let first = true;
+
+    while (true) {
+      if (signal?.aborted) {
+        throw abortedError();
+      }
+
+      fill();
+      const next = pending.shift()!;
+      const page = await next.page;
+
+      const trim = first ? skip : 0;
+      first = false;
+
+      if (page.data.length > trim) {
+        yield {
+          data: trim ? page.data.slice(trim) : page.data,
+          pagination: { ...page.pagination, offset: next.offset + trim },
+        };
+      }
+
+      // A short page is the last one. A full page is too when the server
+      // reported a real total (not the data.length fallback) and nothing is left.
+      const { total, hasMore } = page.pagination;
+      if (page.data.length < pageSize || (total > page.data.length && !hasMore)) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Start a query builder
+   *
+   * @example
+   * ```typescript
+   * const { data } = await vibe.collection('products')
+   *   .query()
+   *   .where('price', 'gte', 10)
+   *   .orderBy('created_at', 'desc')
+   *   .limit(20);
+   * ```
+   */
+  query(): QueryBuilder<T> {
+    return new QueryBuilderImpl<T>(this);
+  }
+
+  /**
+   * Start a query builder with a first condition
+   *
+   * @example
+   * ```typescript
+   * const { data } = await vibe.collection('products')
+   *   .where('price', 'gte', 10)
+   *   .where('status', 'in', ['active', 'trial'])
+   *   .orderBy('created_at', 'desc')
+   *   .limit(20);
+   * ```
+   */
+  where<K extends FieldName<T>, O extends FilterOperator>(
+    field: K,
+    operator: O,
+    value: OperatorValue<FieldValue<T, K>, O>
+  ): QueryBuilder<T> {
+    return this.query().where(field, operator, value);
+  }
+
+  /**
+   * Apply `select` and `expand` to fetched documents
+   *
+   * Fields are trimmed client-side too, so the result matches the narrowed
+   * type even when the server ignores `select` or extra fields were fetched
+   * for cursors and expansion.
+   */
+  private async project(
+    docs: T[],
+    select: readonly string[] | undefined,
+    expand: ExpandMap | undefined,
+    requestOptions: RequestOptions
+  ): Promise<DocumentRecord[]> {
+    let records = docs as DocumentRecord[];
+
+    if (select) {
+      const keep = fieldsToFetch(select, expand)!;
+      records = records.map((doc) => {
+        const projected = Object.fromEntries(
+          keep.filter((field) => field in doc).map((field) => [field, doc[field]])
+        );
+        setDocumentVersion(projected, getDocumentVersion(doc));
+        return projected;
+      });
+    }
+
+    if (!expand) {
+      return records;
+    }
+
+    const relations = await Promise.all(
+      Object.entries(expand).map(async ([field, table]) => {
+        const keys = unique(records.flatMap((doc) => foreignKeys(doc[field])));
+        return [field, await this.fetchReferenced(table, keys, requestOptions)] as const;
+      })
+    );
+
+    return records.map((doc) => {
+      const expanded = { ...doc };
+      setDocumentVersion(expanded, getDocumentVersion(doc));
+      for (const [field, referenced] of relations) {
+        const value = doc[field];
+        expanded[field] = Array.isArray(value)
+          ? value.map((key) => referenced.get(String(key)) ?? null)
+          : value === null || value === undefined
+            ? null
+            : (referenced.get(String(value)) ?? null);
+      }
+      return expanded;
+    });
+  }
+
+  /**
+   * Fetch documents of another table by id, in batches, keyed by stringified id
+   */
+  private async fetchReferenced(
+    table: string,
+    ids: Array<string | number>,
+    requestOptions: RequestOptions
+  ): Promise<Map<string, DocumentRecord>> {
+    const target = new CollectionImpl<DocumentRecord>(table, this.config);
+    const batches: Array<Array<string | number>> = [];
+    for (let start = 0; start < ids.length; start += EXPAND_BATCH_SIZE) {
+      batches.push(ids.slice(start, start + EXPAND_BATCH_SIZE));
+    }
+
+    const pages = await Promise.all(
+      batches.map((batch) =>
+        target.listDocuments(
+          { where: [{ field: 'id', operator: 'in', value: batch }], limit: batch.length },
+          requestOptions
+        )
+      )
+    );
+
+    const referenced = new Map<string, DocumentRecord>();
+    for (const doc of pages.flatMap((page) => page.data)) {
+      if (doc.id !== undefined && doc.id !== null) {
+        referenced.set(String(doc.id), doc);
+      }
+    }
+    return referenced;
+  }
+
+  /**
+   * Check this collection's access policy for an operation
+   *
+   * @returns The row filter the operation is limited to, if any
+   */
+  private async authorize(
+    operation: PolicyOperation
+  ): Promise<Record<string, unknown> | undefined> {
+    if (!this.config.policies[this.name]) {
+      return undefined;
+    }
+    return authorizeCollection(this.config.policies, this.name, operation, await this.config.getUser());
+  }
+
+  /**
+   * Reject a write to a document outside the row filter, or one that would
+   * move it outside. Missing documents are left for the write to report.
+   */
+  private async checkRowAccess(
+    id: string | number,
+    rowFilter: Record<string, unknown> | undefined,
+    requestOptions: RequestOptions,
+    changes?: Partial<T>
+  ): Promise<void> {
+    if (!rowFilter) {
+      return;
+    }
+
+    const current = await this.fetchDocument(id, undefined, requestOptions);
+    if (!current) {
+      return;
+    }
+
+    const stored = current as DocumentRecord;
+    const allowed = changes
+      ? matchesFilter(stored, rowFilter) && matchesFilter({ ...stored, ...changes }, rowFilter)
+      : matchesFilter(stored, rowFilter);
+    if (!allowed) {
+      throw rowFilterError(this.name, 'write');
+    }
+  }
+
+  /**
+   * Unwrap a single-document response body
+   *
+   * Accepts a bare document, a Vibe envelope (`document_id` + `data`), or
+   * either of those wrapped in a `{ data }` response envelope. The response
+   * ETag, if any, becomes the document version.
+   */
+  private unwrapBody(body: unknown, response: Response): T | null {
+    const doc =
+      body && typeof body === 'object' && 'data' in body && !('document_id' in body)
+        ? this.unwrapDocument((body as { data?: T }).data ?? null)
+        : this.unwrapDocument(body as T);
+
+    setDocumentVersion(doc, response.headers.get('ETag'));
+    return doc;
   }
 
   /**
@@ -221,7 +1244,11 @@ export class CollectionImpl<T> implements Collection<T> {
       'document_id' in doc &&
       'data' in doc
     ) {
-      const envelope = doc as { document_id: number; data: string | Record<string, unknown> };
+      const envelope = doc as {
+        document_id: number;
+        data: string | Record<string, unknown>;
+        [meta: string]: unknown;
+      };
       let parsedData: Record<string, unknown> = {};
 
       if (typeof envelope.data === 'string') {
@@ -234,10 +1261,12 @@ export class CollectionImpl<T> implements Collection<T> {
         parsedData = envelope.data;
       }
 
-      return {
+      const unwrapped = {
         id: envelope.document_id,
         ...parsedData,
       } as D;
+      setDocumentVersion(unwrapped, envelopeVersion(envelope));
+      return unwrapped;
     }
 
     return doc;
@@ -250,3 +1279,82 @@ export class CollectionImpl<T> implements Collection<T> {
     return docs.map((doc) => this.unwrapDocument(doc as T)).filter((d): d is T => d !== null);
   }
 }
+
+/**
+ * Plain equality fields of a filter (operator filters can't seed a new document)
+ */
+function equalityFields(filter: Record<string, unknown>): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(filter)) {
+    const isOperator = typeof value === 'object' && value !== null && 'operator' in value;
+    if (value !== undefined && !isOperator) {
+      fields[key] = value;
+    }
+  }
+  return fields;
+}
+
+/**
+ * Id of an unwrapped document
+ */
+function documentId(doc: unknown): string | number {
+  const id = (doc as { id?: string | number } | null)?.id;
+  if (id === undefined || id === null) {
+    throw new VibeError({
+      code: 'SERVER_ERROR',
+      message: 'Matched document has no id',
+    });
+  }
+  return id;
+}
+
+/**
+ * `If-Match` header for an expected version, if any
+ */
+function preconditionHeaders(ifMatch: string | number | undefined): Record<string, string> | undefined {
+  return ifMatch === undefined ? undefined : { 'If-Match': toEntityTag(ifMatch) };
+}
+
+/**
+ * Fields to request for a projection: the selection plus expanded foreign keys
+ */
+function fieldsToFetch(
+  select: readonly string[] | undefined,
+  expand: ExpandMap | undefined
+): string[] | undefined {
+  return select && unique([...select, ...Object.keys(expand ?? {})]);
+}
+
+/**
+ * Foreign key values of a field (single key or array of keys)
+ */
+function foreignKeys(value: unknown): Array<string | number> {
+  const values = Array.isArray(value) ? value : [value];
+  return values.filter(
+    (key): key is string | number => typeof key === 'string' || typeof key === 'number'
+  );
+}
+
+/**
+ * Per-field results of one aggregate function, with `fallback` for fields the
+ * server left out (e.g. groups with no non-null values)
+ */
+function aggregateValues(
+  values: unknown,
+  fields: readonly string[] | undefined,
+  fallback: number | null
+): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...((values ?? {}) as Record<string, unknown>) };
+  for (const field of fields ?? []) {
+    result[field] ??= fallback;
+  }
+  return result;
+}
+
+function isChangeType(value: unknown): value is ChangeEvent<unknown>['type'] {
+  return value === 'insert' || value === 'update' || value === 'delete';
+}
+
+function unique<V>(values: V[]): V[] {
+  return [...new Set(values)];
+}
@@ -0,0 +1,127 @@
+/**
+ * Keyset Cursors
+ *
+ * Opaque cursors for keyset pagination. A cursor records the sort key and id
+ * of the last row on a page; the next page starts strictly after that row.
+ * It also carries the total reported for the first page, so later pages can
+ * report it without counting again.
+ * The API sorts by a single field, so rows tied on the sort key are walked
+ * separately in id order.
+ */
+
+import type { FilterCondition } from './types';
+import { VibeError } from './error';
+
+export interface CursorPosition {
+  /** Sort field the cursor was issued for */
+  field: string;
+  /** Sort direction the cursor was issued for */
+  dir: 'asc' | 'desc';
+  /** Sort key of the last row */
+  value: unknown;
+  /** Id of the last row (tie-breaker), or null once all rows tied on `value` are done */
+  id: unknown;
+  /** Total matching rows, as reported for the first page */
+  total: number;
+}
+
+/**
+ * Encode the position after `row` as an opaque, URL-safe cursor
+ *
+ * @param total - Total matching rows, as reported for the first page
+ * @param tiesDone - Every row tied with `row` on the sort key was returned
+ */
+export function encodeCursor(
+  field: string,
+  dir: 'asc' | 'desc',
+  row: unknown,
+  total: number,
+  tiesDone = false
+): string {
+  const record = (row ?? {}) as Record<string, unknown>;
+  const id = tiesDone ? null : (record.id ?? null);
+  const json = JSON.stringify({ f: field, d: dir, v: record[field] ?? null, i: id, t: total });
+  const bytes = new TextEncoder().encode(json);
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Decode a cursor, checking it was issued for the same sort
+ */
+export function decodeCursor(cursor: string, field: string, dir: 'asc' | 'desc'): CursorPosition {
+  let decoded: { f?: unknown; d?: unknown; v?: unknown; i?: unknown; t?: unknown };
+
+  try {
+    const base64 = cursor.replace(/-/g, '+').replace(/_/g, '/');
+    const bytes = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+    decoded = JSON.parse(new TextDecoder().decode(bytes));
+    if (typeof decoded.t !== 'number') {
+      throw new TypeError('Cursor has no total');
+    }
+  } catch {
+    throw new VibeError({
+      code: 'VALIDATION_ERROR',
+      message: 'Invalid pagination cursor',
+      details: { cursor },
+    });
+  }
+
+  if (decoded.f !== field || decoded.d !== dir) {
+    throw new VibeError({
+      code: 'VALIDATION_ERROR',
+      message: `Cursor was issued for orderBy '${String(decoded.f)} ${String(decoded.d)}', not '${field} ${dir}'`,
+      details: { cursor, orderBy: field, orderDir: dir },
+    });
+  }
+
+  return { field, dir, value: decoded.v, id: decoded.i, total: decoded.t as number };
+}
+
+/**
+ * Conditions for rows tied with the cursor row on the sort key that come
+ * after it by id, or null once every tied row has been returned
+ */
+export function tiedAfter(position: CursorPosition): FilterCondition[] | null {
+  if (position.id === null) {
+    return null;
+  }
+  const after = position.dir === 'asc' ? 'gt' : 'lt';
+  const idAfter: FilterCondition = { field: 'id', operator: after, value: position.id };
+  return position.field === 'id'
+    ? [idAfter]
+    : [{ field: position.field, operator: 'eq', value: position.value }, idAfter];
+}
+
+/**
+ * Condition for rows whose sort key comes strictly after the cursor row's
+ */
+export function keyAfter(position: CursorPosition): FilterCondition {
+  return {
+    field: position.field,
+    operator: position.dir === 'asc' ? 'gt' : 'lt',
+    value: position.value,
+  };
+}
+
+/**
+ * Rows sorted by one field, with each run of equal keys put in id order
+ * (the API orders ties arbitrarily)
+ */
+export function orderTiesById<T>(rows: T[], field: string, dir: 'asc' | 'desc'): T[] {
+  const runStart = new Map<unknown, number>();
+  const records = rows as Array<Record<string, unknown>>;
+  records.forEach((row, index) => {
+    if (!runStart.has(row[field])) runStart.set(row[field], index);
+  });
+
+  const sign = dir === 'asc' ? 1 : -1;
+  const byId = (a: Record<string, unknown>, b: Record<string, unknown>) =>
+    a.id === b.id ? 0 : (a.id as number) < (b.id as number) ? -sign : sign;
+
+  return [...records].sort(
+    (a, b) => runStart.get(a[field])! - runStart.get(b[field])! || byId(a, b)
+  ) as T[];
+}
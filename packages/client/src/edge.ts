@@ -0,0 +1,70 @@
+/**
+ * @vibe/client/edge
+ *
+ * Role, token and access policy helpers without the HTTP client, for the
+ * Edge runtime (Next.js middleware) and other bundles that must stay free of
+ * Node-only modules.
+ *
+ * @example
+ * ```typescript
+ * // middleware.ts
+ * import { ADMIN_ROLES, decodeJwt, hasAnyRole, rolesFromClaims } from '@vibe/client/edge';
+ *
+ * const claims = decodeJwt(request.cookies.get('vibe_token')?.value);
+ * const allowed = hasAnyRole(rolesFromClaims(claims), ADMIN_ROLES);
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+// Error handling
+export { VibeError } from './error';
+
+// Access tokens
+export {
+  decodeJwt,
+  rolesFromToken,
+  tenantFromToken,
+  isTokenExpiring,
+  rolesFromClaims,
+  tenantFromClaims,
+} from './token';
+
+// Access policies
+export {
+  authorizeCollection,
+  satisfiesRoles,
+  matchesFilter,
+  applyRowFilter,
+  rowFilterError,
+} from './policy';
+export type { PolicyOperation } from './policy';
+
+// Auth utilities
+export {
+  VibeRoles,
+  GlobalRoles,
+  AppRoles,
+  ADMIN_ROLES,
+  PLATFORM_ADMIN_ROLES,
+  CLIENT_ADMIN_ROLES,
+  ROLE_HIERARCHY,
+  hasRole,
+  hasAnyRole,
+  hasAllRoles,
+  isAdmin,
+  isPlatformAdmin,
+  isClientAdmin,
+  getHighestRoleLevel,
+  meetsRoleLevel,
+} from './auth';
+
+// Types
+export type {
+  CollectionPolicy,
+  JwtClaims,
+  PolicyRoles,
+  PolicyUser,
+  VibeErrorCode,
+  VibePolicies,
+} from './types';
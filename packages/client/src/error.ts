@@ -10,6 +10,7 @@ export class VibeError extends Error {
   readonly code: VibeErrorCode;
   readonly status?: number;
   readonly details?: Record<string, unknown>;
+  readonly retryAfter?: number;
 
   constructor(options: VibeErrorDetails) {
     super(options.message);
@@ -17,6 +18,7 @@ export class VibeError extends Error {
     this.code = options.code;
     this.status = options.status;
     this.details = options.details;
+    this.retryAfter = options.retryAfter;
 
     // Maintains proper stack trace for where error was thrown
     if (Error.captureStackTrace) {
@@ -30,6 +32,7 @@ export class VibeError extends Error {
   static async fromResponse(response: Response): Promise<VibeError> {
     let message = `HTTP ${response.status}: ${response.statusText}`;
     let details: Record<string, unknown> | undefined;
+    let currentVersion: unknown;
 
     try {
       const body = await response.json();
@@ -39,10 +42,19 @@ export class VibeError extends Error {
         message = body.message;
       }
       details = body.error?.details || body.details;
+      currentVersion = details?.currentVersion ?? body.currentVersion ?? body.version;
     } catch {
       // Response body wasn't JSON, use status text
     }
 
+    // Failed If-Match precondition: report the version the server has now
+    if (response.status === 412) {
+      currentVersion ??= response.headers.get('ETag') ?? undefined;
+      if (currentVersion !== undefined) {
+        details = { ...details, currentVersion: String(currentVersion) };
+      }
+    }
+
     const code = VibeError.statusToCode(response.status);
 
     return new VibeError({
@@ -50,9 +62,29 @@ export class VibeError extends Error {
       message,
       status: response.status,
       details,
+      retryAfter: VibeError.parseRetryAfter(response.headers.get('Retry-After')),
     });
   }
 
+  /**
+   * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+   */
+  private static parseRetryAfter(value: string | null): number | undefined {
+    if (!value) return undefined;
+
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+
+    return undefined;
+  }
+
   /**
    * Create a VibeError from a caught exception
    */
@@ -106,6 +138,7 @@ export class VibeError extends Error {
       case 404:
         return 'NOT_FOUND';
       case 409:
+      case 412:
         return 'CONFLICT';
       case 422:
         return 'VALIDATION_ERROR';
@@ -137,6 +170,19 @@ export class VibeError extends Error {
       message: this.message,
       status: this.status,
       details: this.details,
+      retryAfter: this.retryAfter,
     };
   }
 }
+
+/**
+ * Error for a document that doesn't exist (reads resolve such documents to null)
+ */
+export function notFoundError(collection: string, id: string | number): VibeError {
+  return new VibeError({
+    code: 'NOT_FOUND',
+    status: 404,
+    message: `Document ${id} not found in ${collection}`,
+    details: { collection, id },
+  });
+}
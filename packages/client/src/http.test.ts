@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createTokenManager } from './token';
+import { createMockVibeClient } from './testing';
+import type { VibeMiddleware } from './types';
+
+/** Middleware answering the first `count` requests with `response` instead of the mock */
+function failFirst(count: number, response: () => Response): VibeMiddleware {
+  let failures = 0;
+  return async (_ctx, next) => (failures++ < count ? response() : next());
+}
+
+function status(code: number, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify({ error: { message: `HTTP ${code}` } }), {
+    status: code,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+describe('retries', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('waits for Retry-After before retrying a 503', async () => {
+    vi.useFakeTimers();
+    const vibe = createMockVibeClient(
+      { tables: { todos: [{ id: 1, title: 'a' }] } },
+      {
+        retry: { maxAttempts: 3 },
+        middleware: [failFirst(1, () => status(503, { 'Retry-After': '2' }))],
+      }
+    );
+
+    const result = vibe.collection('todos').get(1);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(vibe.requests).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toEqual({ id: 1, title: 'a' });
+    expect(vibe.requests).toHaveLength(1);
+  });
+
+  it('gives up when Retry-After exceeds maxDelay', async () => {
+    const vibe = createMockVibeClient(
+      { tables: { todos: [] } },
+      {
+        retry: { maxAttempts: 3, maxDelay: 1000 },
+        middleware: [failFirst(1, () => status(429, { 'Retry-After': '60' }))],
+      }
+    );
+
+    await expect(vibe.collection('todos').list()).rejects.toMatchObject({
+      code: 'RATE_LIMITED',
+      retryAfter: 60000,
+    });
+    expect(vibe.requests).toHaveLength(0);
+  });
+
+  it('does not retry writes unless asked to', async () => {
+    const vibe = createMockVibeClient(
+      { tables: { todos: [] } },
+      { retry: { maxAttempts: 3, baseDelay: 1 }, middleware: [failFirst(1, () => status(503))] }
+    );
+
+    await expect(vibe.collection('todos').create({ title: 'a' })).rejects.toMatchObject({
+      code: 'SERVER_ERROR',
+    });
+    expect(vibe.server.table('todos')).toHaveLength(0);
+  });
+});
+
+describe('401 replay', () => {
+  const rejectOldToken: VibeMiddleware = async (ctx, next) =>
+    ctx.headers['Authorization'] === 'Bearer old' ? status(401) : next();
+
+  it('refreshes the token and replays the request once', async () => {
+    const refresh = vi.fn(async () => 'new');
+    const vibe = createMockVibeClient(
+      { tables: { todos: [] } },
+      { tokenManager: createTokenManager({ token: 'old', refresh }), middleware: [rejectOldToken] }
+    );
+
+    await vibe.collection('todos').create({ title: 'a' });
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(vibe.server.table('todos')).toHaveLength(1);
+    expect(vibe.requests[0].headers?.['Authorization']).toBe('Bearer new');
+  });
+
+  it('fails with UNAUTHORIZED when the refresh yields no token', async () => {
+    const refresh = vi.fn(async () => null);
+    const vibe = createMockVibeClient(
+      { tables: { todos: [] } },
+      { tokenManager: createTokenManager({ token: 'old', refresh }), middleware: [rejectOldToken] }
+    );
+
+    await expect(vibe.collection('todos').list()).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(vibe.requests).toHaveLength(0);
+  });
+
+  it('replays only once when the new token is rejected too', async () => {
+    const refresh = vi.fn(async () => 'new');
+    const vibe = createMockVibeClient(
+      { tables: { todos: [] } },
+      {
+        tokenManager: createTokenManager({ token: 'old', refresh }),
+        middleware: [async () => status(401)],
+      }
+    );
+
+    await expect(vibe.collection('todos').list()).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+});
@@ -5,6 +5,18 @@
  * Includes HMAC signing for proxy authentication.
  */
 
+import type {
+  FilterCondition,
+  FilterNode,
+  FilterOperator,
+  HttpMethod,
+  RequestOptions,
+  RetryOptions,
+  VibeFetch,
+  VibeMiddleware,
+  VibeRequestContext,
+  VibeTransport,
+} from './types';
 import type { ResolvedVibeConfig } from './client';
 import { VibeError } from './error';
 
@@ -53,25 +65,139 @@ async function generateHmacSignature(
   }
 }
 
-export interface HttpRequestOptions {
-  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+export interface HttpRequestOptions extends RequestOptions {
+  method: HttpMethod;
   body?: unknown;
   /** Skip authorization header (for public endpoints) */
   skipAuth?: boolean;
+  /** Treat the request as safe to repeat even if its method is not (e.g. POST queries) */
+  idempotent?: boolean;
+  /** Headers for the Vibe endpoint (e.g. If-Match); forwarded in the envelope in proxy mode */
+  headers?: Record<string, string>;
 }
 
 /**
- * Make an HTTP request using the configured mode (direct or proxy)
+ * Default retry policy: three attempts, idempotent methods only
+ */
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxAttempts: 3,
+  baseDelay: 300,
+  maxDelay: 10000,
+  respectRetryAfter: true,
+  retryNonIdempotent: false,
+};
+
+/** Methods that can be repeated without changing the outcome */
+const IDEMPOTENT_METHODS = new Set(['GET', 'PUT', 'DELETE']);
+
+/**
+ * Make an HTTP request using the configured mode (direct, proxy or route)
+ *
+ * Transient failures (see `VibeError.isRetryable`) are retried according to the
+ * client retry policy, merged with any per-call override.
  */
 export async function httpRequest(
   config: ResolvedVibeConfig,
   endpoint: string,
   options: HttpRequestOptions
 ): Promise<Response> {
-  const { method, body, skipAuth } = options;
+  const policy = resolveRetryPolicy(config.retry, options.retry);
+  const canRepeat =
+    options.idempotent || IDEMPOTENT_METHODS.has(options.method) || policy.retryNonIdempotent;
+  const maxAttempts = canRepeat ? Math.max(1, policy.maxAttempts) : 1;
+  let replayed = false;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await sendRequest(config, endpoint, options, attempt);
+    } catch (error) {
+      const vibeError = VibeError.fromError(error);
+
+      // Refresh the token and replay once; the server rejected the request
+      // before acting on it, so this is safe for any method
+      if (
+        vibeError.code === 'UNAUTHORIZED' &&
+        !replayed &&
+        !options.skipAuth &&
+        config.refreshAccessToken &&
+        !options.signal?.aborted
+      ) {
+        replayed = true;
+        if (await refreshAfterUnauthorized(config, options.method, endpoint)) {
+          // The replay doesn't count as a retry attempt
+          attempt--;
+          continue;
+        }
+      }
+
+      if (attempt >= maxAttempts || !vibeError.isRetryable() || options.signal?.aborted) {
+        throw vibeError;
+      }
+
+      const delay = getRetryDelay(vibeError, attempt, policy);
+      if (delay === null) {
+        throw vibeError;
+      }
+
+      if (config.debug) {
+        console.log(
+          `[vibe] ${options.method} ${endpoint} failed (${vibeError.code}), retrying in ${delay}ms (attempt ${attempt + 1}/${maxAttempts})`
+        );
+      }
+
+      await sleep(delay);
+
+      if (options.signal?.aborted) {
+        throw abortedError();
+      }
+    }
+  }
+}
+
+/**
+ * Refresh the access token after a 401
+ *
+ * @returns Whether a new token was obtained
+ */
+async function refreshAfterUnauthorized(
+  config: ResolvedVibeConfig,
+  method: HttpMethod,
+  endpoint: string
+): Promise<boolean> {
+  try {
+    const token = await config.refreshAccessToken?.();
+    if (config.debug) {
+      console.log(
+        `[vibe] ${method} ${endpoint} unauthorized, ${token ? 'replaying with a refreshed token' : 'no token after refresh'}`
+      );
+    }
+    return !!token;
+  } catch (error) {
+    if (config.debug) {
+      console.warn(`[vibe] Token refresh failed:`, error);
+    }
+    return false;
+  }
+}
+
+/**
+ * Make a single HTTP attempt
+ */
+async function sendRequest(
+  config: ResolvedVibeConfig,
+  endpoint: string,
+  options: HttpRequestOptions,
+  attempt: number
+): Promise<Response> {
+  const { method, body, skipAuth, signal, headers: endpointHeaders } = options;
+
+  if (signal?.aborted) {
+    throw abortedError();
+  }
 
   const headers: Record<string, string> = {
     'Content-Type': 'application/json',
+    ...endpointHeaders,
   };
 
   // Add auth token if available and not skipped
@@ -82,23 +208,47 @@ export async function httpRequest(
     }
   }
 
-  // Create abort controller for timeout
+  // Create abort controller for timeout (and caller cancellation)
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), config.timeout);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
 
-  try {
-    let response: Response;
+  const ctx: VibeRequestContext = {
+    endpoint,
+    method,
+    headers,
+    body,
+    mode: config.routeUrl ? 'route' : config.useProxy ? 'proxy' : 'direct',
+    attempt,
+  };
 
+  const dispatch = (): Promise<Response> => {
+    if (config.routeUrl) {
+      // Route mode - same-origin route handler signs and forwards
+      return makeRouteRequest(config, ctx.endpoint, ctx.method, ctx.body, ctx.headers, controller.signal);
+    }
     if (config.useProxy) {
       // IDP Proxy mode - all requests go through proxy endpoint
-      response = await makeProxyRequest(config, endpoint, method, body, headers, controller.signal);
-    } else {
-      // Direct mode - hit Vibe API directly
-      response = await makeDirectRequest(config, endpoint, method, body, headers, controller.signal);
+      return makeProxyRequest(
+        config,
+        ctx.endpoint,
+        ctx.method,
+        ctx.body,
+        ctx.headers,
+        controller.signal,
+        endpointHeaders
+      );
     }
+    // Direct mode - hit Vibe API directly
+    return makeDirectRequest(config, ctx.endpoint, ctx.method, ctx.body, ctx.headers, controller.signal);
+  };
+
+  try {
+    const response = await runMiddleware(config.middleware, ctx, dispatch);
 
     if (config.debug) {
-      console.log(`[vibe] ${method} ${endpoint} -> ${response.status}`);
+      console.log(`[vibe] ${ctx.method} ${ctx.endpoint} -> ${response.status}`);
     }
 
     if (!response.ok) {
@@ -107,10 +257,129 @@ export async function httpRequest(
 
     return response;
   } catch (error) {
+    if (signal?.aborted) {
+      throw abortedError();
+    }
     throw VibeError.fromError(error);
   } finally {
     clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Error for a request cancelled through its AbortSignal
+ */
+export function abortedError(): VibeError {
+  return new VibeError({
+    code: 'NETWORK_ERROR',
+    message: 'Request aborted',
+    details: { aborted: true },
+  });
+}
+
+/**
+ * Run the middleware chain, ending with the transport dispatch
+ */
+function runMiddleware(
+  middleware: VibeMiddleware[],
+  ctx: VibeRequestContext,
+  dispatch: () => Promise<Response>
+): Promise<Response> {
+  // Snapshot so a middleware registered mid-request doesn't shift the chain
+  const chain = [...middleware];
+
+  const run = (index: number): Promise<Response> => {
+    const current = chain[index];
+    if (!current) {
+      return dispatch();
+    }
+
+    let called = false;
+    return current(ctx, () => {
+      if (called) {
+        return Promise.reject(
+          new VibeError({
+            code: 'UNKNOWN_ERROR',
+            message: 'Vibe middleware called next() more than once',
+          })
+        );
+      }
+      called = true;
+      return run(index + 1);
+    });
+  };
+
+  return run(0);
+}
+
+/**
+ * Merge the client retry policy with a per-call override
+ */
+function resolveRetryPolicy(
+  clientPolicy: Required<RetryOptions> | false,
+  override: RetryOptions | false | undefined
+): Required<RetryOptions> {
+  if (override === false) {
+    return { ...DEFAULT_RETRY_OPTIONS, maxAttempts: 1 };
   }
+
+  if (clientPolicy === false) {
+    return override
+      ? { ...DEFAULT_RETRY_OPTIONS, ...override }
+      : { ...DEFAULT_RETRY_OPTIONS, maxAttempts: 1 };
+  }
+
+  return { ...clientPolicy, ...override };
+}
+
+/**
+ * Compute the delay before the next attempt.
+ *
+ * Uses full-jitter exponential backoff. A Retry-After header on 429/503 takes
+ * precedence; if it asks for longer than `maxDelay`, returns null to give up.
+ */
+function getRetryDelay(
+  error: VibeError,
+  attempt: number,
+  policy: Required<RetryOptions>
+): number | null {
+  if (
+    policy.respectRetryAfter &&
+    error.retryAfter !== undefined &&
+    (error.status === 429 || error.status === 503)
+  ) {
+    return error.retryAfter <= policy.maxDelay ? error.retryAfter : null;
+  }
+
+  return backoffDelay(attempt, policy);
+}
+
+/**
+ * Full-jitter exponential backoff delay after the given attempt
+ */
+export function backoffDelay(
+  attempt: number,
+  policy: Pick<Required<RetryOptions>, 'baseDelay' | 'maxDelay'>
+): number {
+  const ceiling = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+  return Math.floor(Math.random() * ceiling);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Create a transport that delivers requests with fetch
+ *
+ * The global fetch is looked up per request so it can be replaced at runtime
+ * (e.g. by test doubles).
+ */
+export function createFetchTransport(fetchImpl?: VibeFetch): VibeTransport {
+  return {
+    send: ({ url, ...init }) => (fetchImpl ?? globalThis.fetch)(url, init),
+  };
 }
 
 /**
@@ -130,7 +399,37 @@ async function makeDirectRequest(
     console.log(`[vibe:direct] ${method} ${url}`);
   }
 
-  return fetch(url, {
+  return config.transport.send({
+    url,
+    method,
+    headers,
+    body: body ? JSON.stringify(body) : undefined,
+    signal,
+  });
+}
+
+/**
+ * Make an unsigned request to the same-origin route handler
+ *
+ * The route receives the proxy endpoint as its path and signs the request
+ * with the server-held key before forwarding it to the IDP.
+ */
+async function makeRouteRequest(
+  config: ResolvedVibeConfig,
+  endpoint: string,
+  method: string,
+  body: unknown,
+  headers: Record<string, string>,
+  signal: AbortSignal
+): Promise<Response> {
+  const url = `${config.routeUrl}${endpoint}`;
+
+  if (config.debug) {
+    console.log(`[vibe:route] ${method} ${url}`);
+  }
+
+  return config.transport.send({
+    url,
     method,
     headers,
     body: body ? JSON.stringify(body) : undefined,
@@ -147,7 +446,8 @@ async function makeProxyRequest(
   method: string,
   body: unknown,
   headers: Record<string, string>,
-  signal: AbortSignal
+  signal: AbortSignal,
+  forwardHeaders?: Record<string, string>
 ): Promise<Response> {
   const proxyUrl = `${config.idpUrl}/api/vibe/proxy`;
   const timestamp = Math.floor(Date.now() / 1000);
@@ -162,18 +462,20 @@ async function makeProxyRequest(
     headers['X-Vibe-Signature'] = signature;
   }
 
-  // Proxy body format: { endpoint, method, data }
+  // Proxy body format: { endpoint, method, data, headers? }
   const proxyBody = {
     endpoint,
     method,
     data: body ?? null,
+    ...(forwardHeaders && Object.keys(forwardHeaders).length > 0 && { headers: forwardHeaders }),
   };
 
   if (config.debug) {
     console.log(`[vibe:proxy] POST ${proxyUrl}`, { endpoint, method, hasBody: !!body });
   }
 
-  return fetch(proxyUrl, {
+  return config.transport.send({
+    url: proxyUrl,
     method: 'POST', // Proxy always uses POST
     headers,
     body: JSON.stringify(proxyBody),
@@ -247,3 +549,95 @@ export function convertFiltersToVibeFormat(
 
   return filters;
 }
+
+/**
+ * Collect the filters of a list query: `filter` shorthand first, then `where`
+ */
+export function collectFilters(
+  filter: Record<string, unknown> | undefined,
+  where: FilterNode[] | undefined
+): FilterNode[] {
+  const shorthand = filter ? (convertFiltersToVibeFormat(filter) as FilterCondition[]) : [];
+  return [...shorthand, ...(where ?? [])];
+}
+
+/** Operator that matches exactly the rows the key operator does not */
+const NEGATED_OPERATORS: Record<string, FilterOperator> = {
+  eq: 'neq',
+  neq: 'eq',
+  gt: 'lte',
+  gte: 'lt',
+  lt: 'gte',
+  lte: 'gt',
+  in: 'nin',
+  nin: 'in',
+};
+
+/**
+ * Flatten filters into the ANDed condition list that direct mode supports
+ *
+ * `and` groups are inlined, single-child `or` groups are unwrapped, and `not`
+ * over a single condition becomes the negated operator. Anything else cannot
+ * be expressed as query string parameters and throws VALIDATION_ERROR.
+ */
+export function toDirectConditions(filters: FilterNode[]): FilterCondition[] {
+  const conditions: FilterCondition[] = [];
+
+  for (const node of filters) {
+    if (!('logic' in node)) {
+      conditions.push(node);
+      continue;
+    }
+
+    if (node.logic === 'and' || (node.logic === 'or' && node.filters.length === 1)) {
+      conditions.push(...toDirectConditions(node.filters));
+      continue;
+    }
+
+    if (node.logic === 'not') {
+      const inner = toDirectConditions(node.filters);
+      const negated = inner.length === 1 ? NEGATED_OPERATORS[inner[0].operator] : undefined;
+      if (negated) {
+        conditions.push({ ...inner[0], operator: negated });
+        continue;
+      }
+    }
+
+    throw new VibeError({
+      code: 'VALIDATION_ERROR',
+      message: `Filter group '${node.logic}' cannot be expressed in direct mode. Use IDP proxy mode for OR and compound NOT filters.`,
+      details: { group: node },
+    });
+  }
+
+  return conditions;
+}
+
+/**
+ * Append filter conditions to direct-mode query string parameters
+ *
+ * Equality uses `filter[field]=value`; other operators use
+ * `filter[field][operator]=value`. Array values are comma-separated.
+ *
+ * Input:  [{ field: 'price', operator: 'gte', value: 10 }, { field: 'status', operator: 'in', value: ['a', 'b'] }]
+ * Output: filter[price][gte]=10&filter[status][in]=a,b
+ */
+export function appendFilterParams(
+  params: URLSearchParams,
+  conditions: Array<{ field: string; operator: string; value: unknown }>
+): void {
+  for (const { field, operator, value } of conditions) {
+    const key = operator === 'eq' ? `filter[${field}]` : `filter[${field}][${operator}]`;
+    const serialized = Array.isArray(value)
+      ? value.map(serializeFilterValue).join(',')
+      : serializeFilterValue(value);
+    params.append(key, serialized);
+  }
+}
+
+function serializeFilterValue(value: unknown): string {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return String(value);
+}
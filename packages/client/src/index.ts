@@ -41,11 +41,35 @@ export { createVibeClient, getVibeClient, resolveConfig } from './client';
 export type { ResolvedVibeConfig } from './client';
 
 // HTTP utilities (for advanced use cases)
-export { convertFiltersToVibeFormat } from './http';
+export { convertFiltersToVibeFormat, createFetchTransport } from './http';
 
 // Error handling
 export { VibeError } from './error';
 
+// Optimistic concurrency
+export { getDocumentVersion } from './version';
+
+// Access tokens
+export {
+  createTokenManager,
+  decodeJwt,
+  rolesFromToken,
+  tenantFromToken,
+  isTokenExpiring,
+  rolesFromClaims,
+  tenantFromClaims,
+} from './token';
+
+// Access policies
+export {
+  authorizeCollection,
+  satisfiesRoles,
+  matchesFilter,
+  applyRowFilter,
+  rowFilterError,
+} from './policy';
+export type { PolicyOperation } from './policy';
+
 // Auth utilities
 export {
   VibeRoles,
@@ -73,6 +97,43 @@ export type {
   Collection,
   ListOptions,
   ListResult,
+  IterateOptions,
+  ExpandMap,
+  ProjectionOptions,
+  Projected,
+  TableDocument,
+  VibeSchema,
+  UpsertResult,
+  ChangeEvent,
+  ChangeType,
+  SubscribeOptions,
+  VibeSubscription,
+  AggregateOptions,
+  AggregateRow,
+  BulkOptions,
+  BulkTarget,
+  BulkResult,
+  BulkSuccess,
+  BulkFailure,
+  FilterOperator,
+  FilterCondition,
+  FilterGroup,
+  FilterNode,
+  FilterBuilder,
+  FilterGroupBuilder,
+  FieldName,
+  FieldValue,
+  OperatorValue,
+  QueryBuilder,
+  RequestOptions,
+  WriteOptions,
+  RetryOptions,
+  VibeMiddleware,
+  VibeRequestContext,
+  HttpMethod,
+  VibeFetch,
+  VibeTransport,
+  VibeTransportRequest,
   Pagination,
   Role,
   CreateRole,
@@ -81,4 +142,11 @@ export type {
   TenantConfig,
   VibeErrorCode,
   VibeErrorDetails,
+  JwtClaims,
+  TokenManager,
+  TokenManagerOptions,
+  VibePolicies,
+  CollectionPolicy,
+  PolicyRoles,
+  PolicyUser,
 } from './types';
@@ -0,0 +1,38 @@
+/**
+ * Query Keys
+ *
+ * TanStack Query keys shared by the React hooks and the server-side prefetch
+ * helpers. Kept free of React imports so server components can use them.
+ */
+
+import type { AggregateOptions, ListOptions, UseVibeInfiniteCollectionOptions } from './types';
+
+export const vibeKeys = {
+  all: ['vibe'] as const,
+  collections: () => [...vibeKeys.all, 'collection'] as const,
+  collection: (name: string) => [...vibeKeys.collections(), name] as const,
+  lists: (name: string) => [...vibeKeys.collection(name), 'list'] as const,
+  list: (name: string, options?: ListOptions) => [...vibeKeys.lists(name), options] as const,
+  infiniteLists: (name: string) => [...vibeKeys.collection(name), 'infinite'] as const,
+  infinite: (name: string, options?: UseVibeInfiniteCollectionOptions) =>
+    [...vibeKeys.infiniteLists(name), options] as const,
+  detail: (name: string, id: string | number) =>
+    [...vibeKeys.collection(name), 'detail', id] as const,
+  findOne: (name: string, filter: Record<string, unknown>) =>
+    [...vibeKeys.collection(name), 'findOne', filter] as const,
+  count: (name: string, filter?: Record<string, unknown>) =>
+    [...vibeKeys.collection(name), 'count', filter] as const,
+  aggregate: (
+    name: string,
+    options: AggregateOptions<unknown, string, string, string, string, string>
+  ) => [...vibeKeys.collection(name), 'aggregate', options] as const,
+  distinct: (name: string, field: string, filter?: Record<string, unknown>) =>
+    [...vibeKeys.collection(name), 'distinct', field, filter] as const,
+  admin: () => [...vibeKeys.all, 'admin'] as const,
+  roles: () => [...vibeKeys.admin(), 'roles'] as const,
+  role: (id: number) => [...vibeKeys.roles(), id] as const,
+  users: () => [...vibeKeys.admin(), 'users'] as const,
+  user: (id: string) => [...vibeKeys.users(), id] as const,
+  userRoles: (id: string) => [...vibeKeys.user(id), 'roles'] as const,
+  tenant: () => [...vibeKeys.admin(), 'tenant'] as const,
+};
@@ -0,0 +1,800 @@
+/**
+ * In-Memory Vibe API
+ *
+ * Serves the Vibe wire formats (direct `/v1/{table}`, proxy
+ * `/v1/collections/{collection}/tables/{table}` and `/v1/admin`) from an
+ * in-memory store. Backs `createMockVibeClient` and local dev servers.
+ */
+
+import type {
+  FilterCondition,
+  FilterNode,
+  FilterOperator,
+  Role,
+  TenantConfig,
+  User,
+} from './types';
+import { VibeError } from './error';
+
+export type MockDocument = Record<string, unknown>;
+
+export interface MockUser extends User {
+  /** Names of the user's roles */
+  roles?: string[];
+}
+
+export interface MockVibeSeed {
+  /** Documents per table, e.g. `{ products: [{ id: 1, name: 'Widget' }] }` */
+  tables?: Record<string, MockDocument[]>;
+
+  /** Roles. Default: `mockRoles` */
+  roles?: Role[];
+
+  /** Users. Default: `mockUsers` */
+  users?: MockUser[];
+
+  /** Tenant configuration. Default: `mockTenant` */
+  tenant?: TenantConfig;
+}
+
+export interface MockVibeHandlerOptions {
+  /**
+   * Return documents in the Vibe storage envelope (`document_id` plus
+   * JSON-stringified `data`) like the live API. Default: false (bare documents)
+   */
+  envelopes?: boolean;
+}
+
+export interface MockRequest {
+  method: string;
+
+  /** Vibe endpoint path with query string, e.g. /v1/products?limit=20 */
+  endpoint: string;
+
+  headers?: Record<string, string>;
+
+  /** Parsed JSON body */
+  body?: unknown;
+}
+
+export interface MockVibeHandler {
+  /** Serve one request */
+  handle(request: MockRequest): Promise<Response>;
+
+  /** Documents of a table (the live array; changes are visible to later requests) */
+  table(name: string): MockDocument[];
+
+  /** Replace all data with `seed` (or the original seed) */
+  reset(seed?: MockVibeSeed): void;
+}
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const FIXTURE_TIMESTAMP = '2026-01-01T00:00:00.000Z';
+
+/** Default roles of a mock server */
+export const mockRoles: Role[] = [
+  {
+    id: 1,
+    name: 'vibe_app_user',
+    description: 'Standard authenticated user',
+    source: 'vibe',
+    created_at: FIXTURE_TIMESTAMP,
+    updated_at: FIXTURE_TIMESTAMP,
+  },
+  {
+    id: 2,
+    name: 'vibe_client_admin',
+    description: 'Vibe client admin',
+    source: 'vibe',
+    created_at: FIXTURE_TIMESTAMP,
+    updated_at: FIXTURE_TIMESTAMP,
+  },
+];
+
+/** Default users of a mock server: one admin, one regular user */
+export const mockUsers: MockUser[] = [
+  {
+    id: 'user-admin',
+    email: 'admin@example.com',
+    name: 'Admin User',
+    created_at: FIXTURE_TIMESTAMP,
+    roles: ['vibe_client_admin', 'vibe_app_user'],
+  },
+  {
+    id: 'user-1',
+    email: 'user@example.com',
+    name: 'Test User',
+    created_at: FIXTURE_TIMESTAMP,
+    roles: ['vibe_app_user'],
+  },
+];
+
+/** Default tenant configuration of a mock server */
+export const mockTenant: TenantConfig = {
+  client_id: 'mock-client',
+  site_name: 'Mock Vibe App',
+};
+
+// =============================================================================
+// Handler
+// =============================================================================
+
+/** Changes kept for `Last-Event-ID` replay */
+const CHANGE_LOG_SIZE = 1000;
+
+const OPERATOR_ALIASES: Record<string, FilterOperator> = {
+  '=': 'eq',
+  '==': 'eq',
+  '!=': 'neq',
+  '<>': 'neq',
+  '>': 'gt',
+  '>=': 'gte',
+  '<': 'lt',
+  '<=': 'lte',
+};
+
+interface Change {
+  seq: number;
+  table: string;
+  type: 'insert' | 'update' | 'delete';
+  doc: MockDocument;
+  version: number;
+}
+
+interface QuerySpec {
+  filters: FilterNode[];
+  orderBy?: string;
+  orderDir: 'asc' | 'desc';
+  limit: number;
+  offset: number;
+  select?: string[];
+}
+
+/**
+ * Create an in-memory Vibe API
+ *
+ * @example
+ * ```typescript
+ * const api = createMockVibeHandler({ tables: { products: [{ id: 1, name: 'Widget' }] } });
+ * const response = await api.handle({ method: 'GET', endpoint: '/v1/products?limit=10' });
+ * ```
+ */
+export function createMockVibeHandler(
+  seed: MockVibeSeed = {},
+  options: MockVibeHandlerOptions = {}
+): MockVibeHandler {
+  return new MockVibeHandlerImpl(seed, options);
+}
+
+class MockVibeHandlerImpl implements MockVibeHandler {
+  private seed: MockVibeSeed;
+  private readonly options: MockVibeHandlerOptions;
+  private tables = new Map<string, MockDocument[]>();
+  private versions = new WeakMap<MockDocument, number>();
+  private roles: Role[] = [];
+  private users: MockUser[] = [];
+  private tenant: TenantConfig = mockTenant;
+  private changes: Change[] = [];
+  private listeners = new Set<(change: Change) => void>();
+  private sequence = 0;
+
+  constructor(seed: MockVibeSeed, options: MockVibeHandlerOptions) {
+    this.seed = seed;
+    this.options = options;
+    this.reset(seed);
+  }
+
+  reset(seed: MockVibeSeed = this.seed): void {
+    this.seed = seed;
+    this.tables = new Map(
+      Object.entries(seed.tables ?? {}).map(([name, docs]) => [name, docs.map((doc) => clone(doc))])
+    );
+    this.versions = new WeakMap();
+    this.roles = clone(seed.roles ?? mockRoles);
+    this.users = clone(seed.users ?? mockUsers);
+    this.tenant = clone(seed.tenant ?? mockTenant);
+    this.changes = [];
+  }
+
+  table(name: string): MockDocument[] {
+    let docs = this.tables.get(name);
+    if (!docs) {
+      docs = [];
+      this.tables.set(name, docs);
+    }
+    return docs;
+  }
+
+  async handle(request: MockRequest): Promise<Response> {
+    const url = new URL(request.endpoint, 'http://vibe.mock');
+    const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    const method = request.method.toUpperCase();
+
+    try {
+      if (segments[0] !== 'v1' || segments.length < 2) {
+        throw notFound(`No route for ${method} ${url.pathname}`);
+      }
+
+      if (segments[1] === 'admin') {
+        return this.handleAdmin(method, segments.slice(2), url.searchParams, request.body);
+      }
+
+      if (segments[1] === 'collections' && segments[3] === 'tables' && segments[4]) {
+        return this.handleTable(method, segments[4], segments.slice(5), url.searchParams, request);
+      }
+
+      return this.handleTable(method, segments[1], segments.slice(2), url.searchParams, request);
+    } catch (error) {
+      const vibeError = VibeError.fromError(error);
+      return json(vibeError.status ?? 500, {
+        error: { message: vibeError.message, details: vibeError.details },
+      });
+    }
+  }
+
+  // ===========================================================================
+  // Tables
+  // ===========================================================================
+
+  private handleTable(
+    method: string,
+    table: string,
+    rest: string[],
+    params: URLSearchParams,
+    request: MockRequest
+  ): Response {
+    const body = (request.body ?? {}) as Record<string, unknown>;
+    const [first, second] = rest;
+
+    if (first === undefined) {
+      if (method === 'GET') return this.list(table, fromParams(params));
+      if (method === 'POST') return this.create(table, body);
+    } else if (first === 'query' && method === 'POST') {
+      const spec = fromBody(body);
+      if (second === undefined) return this.list(table, spec);
+      if (second === 'count') return this.count(table, spec);
+      if (second === 'aggregate') return this.aggregate(table, spec, body);
+      if (second === 'distinct') return this.distinct(table, spec, String(body.field));
+    } else if (rest.length === 1 && method === 'GET' && first === 'count') {
+      return this.count(table, fromParams(params));
+    } else if (rest.length === 1 && method === 'GET' && first === 'aggregate') {
+      return this.aggregate(table, fromParams(params), aggregateParams(params));
+    } else if (rest.length === 1 && method === 'GET' && first === 'distinct') {
+      return this.distinct(table, fromParams(params), params.get('field') ?? '');
+    } else if (rest.length === 1 && first === 'subscribe') {
+      const spec = method === 'POST' ? fromBody(body) : fromParams(params);
+      return this.subscribe(table, spec, header(request.headers, 'Last-Event-ID'));
+    } else if (rest.length === 1) {
+      const ifMatch = header(request.headers, 'If-Match');
+      if (method === 'GET') return this.get(table, first, params.get('select'));
+      if (method === 'PATCH' || method === 'PUT') {
+        return this.update(table, first, body, ifMatch, method === 'PUT');
+      }
+      if (method === 'DELETE') return this.remove(table, first, ifMatch);
+    }
+
+    throw new VibeError({
+      code: 'NOT_FOUND',
+      status: 404,
+      message: `No route for ${method} /${[table, ...rest].join('/')}`,
+    });
+  }
+
+  private list(table: string, spec: QuerySpec): Response {
+    const matches = sortDocuments(this.query(table, spec.filters), spec.orderBy, spec.orderDir);
+    const page = matches.slice(spec.offset, spec.offset + spec.limit);
+    return json(200, {
+      data: page.map((doc) => this.present(table, doc, this.version(doc), spec.select)),
+      meta: { total: matches.length },
+    });
+  }
+
+  private get(table: string, id: string, select: string | null): Response {
+    const doc = this.find(table, id);
+    const fields = select ? select.split(',') : undefined;
+    return json(200, this.present(table, doc, this.version(doc), fields), this.etag(doc));
+  }
+
+  private create(table: string, data: MockDocument): Response {
+    const docs = this.table(table);
+    if (data.id !== undefined && docs.some((doc) => sameId(doc.id, data.id))) {
+      throw new VibeError({
+        code: 'CONFLICT',
+        status: 409,
+        message: `Document ${String(data.id)} already exists in ${table}`,
+      });
+    }
+
+    const doc = { ...clone(data), id: data.id ?? nextId(docs) };
+    docs.push(doc);
+    this.versions.set(doc, 1);
+    this.emit(table, 'insert', doc);
+    return json(201, this.present(table, doc, 1), this.etag(doc));
+  }
+
+  private update(
+    table: string,
+    id: string,
+    data: MockDocument,
+    ifMatch: string | undefined,
+    replace: boolean
+  ): Response {
+    const doc = this.find(table, id);
+    this.checkVersion(doc, ifMatch);
+
+    const docId = doc.id;
+    if (replace) {
+      for (const key of Object.keys(doc)) delete doc[key];
+    }
+    Object.assign(doc, clone(data), { id: docId });
+    this.versions.set(doc, this.version(doc) + 1);
+    this.emit(table, 'update', doc);
+    return json(200, this.present(table, doc, this.version(doc)), this.etag(doc));
+  }
+
+  private remove(table: string, id: string, ifMatch: string | undefined): Response {
+    const doc = this.find(table, id);
+    this.checkVersion(doc, ifMatch);
+
+    const docs = this.table(table);
+    docs.splice(docs.indexOf(doc), 1);
+    this.emit(table, 'delete', doc);
+    return new Response(null, { status: 204 });
+  }
+
+  private count(table: string, spec: QuerySpec): Response {
+    return json(200, { count: this.query(table, spec.filters).length });
+  }
+
+  private aggregate(table: string, spec: QuerySpec, options: Record<string, unknown>): Response {
+    const list = (value: unknown) => (Array.isArray(value) ? value.map(String) : []);
+    const groupBy = list(options.groupBy);
+    const groups = new Map<string, MockDocument[]>();
+
+    for (const doc of this.query(table, spec.filters)) {
+      const key = JSON.stringify(groupBy.map((field) => doc[field] ?? null));
+      groups.set(key, [...(groups.get(key) ?? []), doc]);
+    }
+
+    // Without grouping, an empty table still has one (zero) row
+    if (groupBy.length === 0 && groups.size === 0) {
+      groups.set('[]', []);
+    }
+
+    const rows = [...groups.values()].map((docs) => {
+      const row: MockDocument = {};
+      for (const field of groupBy) row[field] = docs[0]?.[field] ?? null;
+      row.count = docs.length;
+
+      const numbers = (field: string) =>
+        docs.map((doc) => doc[field]).filter((v): v is number => typeof v === 'number');
+      const present = (field: string) =>
+        docs.map((doc) => doc[field]).filter((v) => v !== null && v !== undefined);
+
+      row.sum = Object.fromEntries(
+        list(options.sum).map((f) => [f, numbers(f).reduce((a, b) => a + b, 0)])
+      );
+      row.avg = Object.fromEntries(
+        list(options.avg).map((f) => {
+          const values = numbers(f);
+          return [f, values.length ? values.reduce((a, b) => a + b, 0) / values.length : null];
+        })
+      );
+      row.min = Object.fromEntries(
+        list(options.min).map((f) => [f, present(f).sort(compareValues)[0] ?? null])
+      );
+      row.max = Object.fromEntries(
+        list(options.max).map((f) => [f, present(f).sort(compareValues).pop() ?? null])
+      );
+      return row;
+    });
+
+    return json(200, { data: rows });
+  }
+
+  private distinct(table: string, spec: QuerySpec, field: string): Response {
+    const seen = new Map<string, unknown>();
+    for (const doc of this.query(table, spec.filters)) {
+      const value = doc[field] ?? null;
+      seen.set(JSON.stringify(value), value);
+    }
+    return json(200, { data: [...seen.values()].sort(compareValues) });
+  }
+
+  /**
+   * Stream changes as server-sent events, replaying those after `lastEventId`
+   */
+  private subscribe(table: string, spec: QuerySpec, lastEventId: string | undefined): Response {
+    const encoder = new TextEncoder();
+    let listener: ((change: Change) => void) | undefined;
+
+    const stream = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        const send = (change: Change) => {
+          if (change.table !== table || !matchesAll(change.doc, spec.filters)) return;
+          const payload = JSON.stringify({
+            id: change.doc.id,
+            ...(change.type !== 'delete' && {
+              data: this.present(table, change.doc, change.version),
+            }),
+          });
+          controller.enqueue(
+            encoder.encode(`id: ${change.seq}\nevent: ${change.type}\ndata: ${payload}\n\n`)
+          );
+        };
+
+        controller.enqueue(encoder.encode(': connected\n\n'));
+        if (lastEventId !== undefined) {
+          this.changes.filter((change) => change.seq > Number(lastEventId)).forEach(send);
+        }
+
+        listener = send;
+        this.listeners.add(send);
+      },
+      cancel: () => {
+        if (listener) this.listeners.delete(listener);
+      },
+    });
+
+    return new Response(stream, {
+      status: 200,
+      headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+    });
+  }
+
+  private emit(table: string, type: Change['type'], doc: MockDocument): void {
+    const change: Change = {
+      seq: ++this.sequence,
+      table,
+      type,
+      doc: clone(doc),
+      version: this.version(doc),
+    };
+    this.changes.push(change);
+    if (this.changes.length > CHANGE_LOG_SIZE) {
+      this.changes.shift();
+    }
+    this.listeners.forEach((listener) => listener(change));
+  }
+
+  /**
+   * Shape a stored document for a response, wrapping it in the storage
+   * envelope when `envelopes` is set
+   */
+  private present(
+    table: string,
+    doc: MockDocument,
+    version: number,
+    select?: string[]
+  ): MockDocument {
+    const fields = project(doc, select);
+    if (!this.options.envelopes) return fields;
+
+    const { id: _id, ...data } = fields;
+    return { document_id: doc.id, table, data: JSON.stringify(data), version };
+  }
+
+  private query(table: string, filters: FilterNode[]): MockDocument[] {
+    return this.table(table).filter((doc) => matchesAll(doc, filters));
+  }
+
+  private find(table: string, id: string): MockDocument {
+    const doc = this.table(table).find((candidate) => sameId(candidate.id, id));
+    if (!doc) {
+      throw notFound(`Document ${id} not found in ${table}`);
+    }
+    return doc;
+  }
+
+  private version(doc: MockDocument): number {
+    return this.versions.get(doc) ?? 1;
+  }
+
+  private etag(doc: MockDocument): Record<string, string> {
+    return { ETag: `"${this.version(doc)}"` };
+  }
+
+  private checkVersion(doc: MockDocument, ifMatch: string | undefined): void {
+    const current = `"${this.version(doc)}"`;
+    if (ifMatch !== undefined && ifMatch !== '*' && ifMatch !== current) {
+      throw new VibeError({
+        code: 'CONFLICT',
+        status: 412,
+        message: 'Document was modified',
+        details: { currentVersion: current },
+      });
+    }
+  }
+
+  // ===========================================================================
+  // Admin
+  // ===========================================================================
+
+  private handleAdmin(
+    method: string,
+    rest: string[],
+    params: URLSearchParams,
+    body: unknown
+  ): Response {
+    const [resource, id, sub] = rest;
+    const data = (body ?? {}) as Record<string, unknown>;
+
+    if (resource === 'roles') {
+      if (id === undefined && method === 'GET') return paged(this.roles, params);
+      if (id === undefined && method === 'POST') {
+        const now = new Date().toISOString();
+        const role: Role = {
+          source: 'vibe',
+          ...(data as Partial<Role>),
+          id: nextId(this.roles as unknown as MockDocument[]) as number,
+          name: String(data.name ?? ''),
+          created_at: now,
+          updated_at: now,
+        };
+        this.roles.push(role);
+        return json(201, { data: role });
+      }
+
+      const role = this.roles.find((candidate) => sameId(candidate.id, id));
+      if (!role) throw notFound(`Role ${id} not found`);
+      if (method === 'GET') return json(200, { data: role });
+      if (method === 'PATCH') {
+        Object.assign(role, data, { id: role.id, updated_at: new Date().toISOString() });
+        return json(200, { data: role });
+      }
+      if (method === 'DELETE') {
+        this.roles.splice(this.roles.indexOf(role), 1);
+        return new Response(null, { status: 204 });
+      }
+    }
+
+    if (resource === 'users' && method === 'GET') {
+      if (id === undefined) return paged(this.users.map(withoutRoles), params);
+
+      const user = this.users.find((candidate) => candidate.id === id);
+      if (!user) throw notFound(`User ${id} not found`);
+      if (sub === undefined) return json(200, { data: withoutRoles(user) });
+      if (sub === 'roles') {
+        const names = new Set(user.roles ?? []);
+        return json(200, { data: this.roles.filter((role) => names.has(role.name)) });
+      }
+    }
+
+    if (resource === 'tenant' && method === 'GET') {
+      return json(200, { data: this.tenant });
+    }
+
+    throw notFound(`No route for ${method} /v1/admin/${rest.join('/')}`);
+  }
+}
+
+// =============================================================================
+// Query Parsing
+// =============================================================================
+
+/**
+ * Read a direct-mode list query (`limit`, `offset`, `orderBy`, `filter[f][op]`)
+ */
+function fromParams(params: URLSearchParams): QuerySpec {
+  const filters: FilterCondition[] = [];
+
+  params.forEach((value, key) => {
+    const match = /^filter\[([^\]]+)\](?:\[([^\]]+)\])?$/.exec(key);
+    if (match) {
+      const operator = toOperator(match[2] ?? 'eq');
+      const parsed = operator === 'in' || operator === 'nin' ? value.split(',') : value;
+      filters.push({ field: match[1], operator, value: parsed });
+    }
+  });
+
+  return {
+    filters,
+    orderBy: params.get('orderBy') || undefined,
+    orderDir: params.get('orderDir') === 'desc' ? 'desc' : 'asc',
+    limit: toCount(params.get('limit'), 20),
+    offset: toCount(params.get('offset'), 0),
+    select: params.has('select') ? splitList(params.get('select')) : undefined,
+  };
+}
+
+/**
+ * Read a proxy-mode query body (`page`, `pageSize`, `filter` nodes)
+ */
+function fromBody(body: Record<string, unknown>): QuerySpec {
+  const pageSize = toCount(body.pageSize, 20);
+  const page = Math.max(1, toCount(body.page, 1));
+
+  return {
+    filters: normalizeNodes(Array.isArray(body.filter) ? (body.filter as FilterNode[]) : []),
+    orderBy: typeof body.orderBy === 'string' && body.orderBy ? body.orderBy : undefined,
+    orderDir: body.orderDir === 'desc' ? 'desc' : 'asc',
+    limit: pageSize,
+    offset: (page - 1) * pageSize,
+    select: Array.isArray(body.select) ? body.select.map(String) : undefined,
+  };
+}
+
+function aggregateParams(params: URLSearchParams): Record<string, unknown> {
+  return Object.fromEntries(
+    ['groupBy', 'sum', 'avg', 'min', 'max'].map((key) => [key, splitList(params.get(key))])
+  );
+}
+
+function normalizeNodes(nodes: FilterNode[]): FilterNode[] {
+  return nodes.map((node) =>
+    'logic' in node
+      ? { logic: node.logic, filters: normalizeNodes(node.filters) }
+      : { ...node, operator: toOperator(node.operator) }
+  );
+}
+
+function toOperator(operator: string): FilterOperator {
+  const normalized = OPERATOR_ALIASES[operator] ?? operator;
+  if (!['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'nin', 'like'].includes(normalized)) {
+    throw new VibeError({
+      code: 'VALIDATION_ERROR',
+      status: 422,
+      message: `Unsupported filter operator: ${operator}`,
+    });
+  }
+  return normalized as FilterOperator;
+}
+
+function splitList(value: string | null): string[] {
+  return value ? value.split(',').filter(Boolean) : [];
+}
+
+function toCount(value: unknown, fallback: number): number {
+  const count = Number(value ?? fallback);
+  return Number.isFinite(count) && count >= 0 ? Math.floor(count) : fallback;
+}
+
+// =============================================================================
+// Matching & Sorting
+// =============================================================================
+
+function matchesAll(doc: MockDocument, nodes: FilterNode[]): boolean {
+  return nodes.every((node) => matches(doc, node));
+}
+
+function matches(doc: MockDocument, node: FilterNode): boolean {
+  if ('logic' in node) {
+    if (node.logic === 'or') return node.filters.some((child) => matches(doc, child));
+    if (node.logic === 'not') return !matchesAll(doc, node.filters);
+    return matchesAll(doc, node.filters);
+  }
+
+  const actual = doc[node.field];
+  const expected = coerce(node.value, actual);
+
+  switch (node.operator) {
+    case 'eq':
+      return looseEqual(actual, expected);
+    case 'neq':
+      return !looseEqual(actual, expected);
+    case 'gt':
+      return actual != null && compareValues(actual, expected) > 0;
+    case 'gte':
+      return actual != null && compareValues(actual, expected) >= 0;
+    case 'lt':
+      return actual != null && compareValues(actual, expected) < 0;
+    case 'lte':
+      return actual != null && compareValues(actual, expected) <= 0;
+    case 'in':
+    case 'nin': {
+      const list = Array.isArray(node.value) ? node.value : String(node.value).split(',');
+      const found = list.some((item) => looseEqual(actual, coerce(item, actual)));
+      return node.operator === 'in' ? found : !found;
+    }
+    case 'like': {
+      const pattern = String(node.value)
+        .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+        .replace(/%/g, '.*')
+        .replace(/_/g, '.');
+      return typeof actual === 'string' && new RegExp(`^${pattern}$`, 's').test(actual);
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Interpret a query-string value using the type of the stored value
+ */
+function coerce(value: unknown, sample: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  if (typeof sample === 'number' && value.trim() !== '' && !Number.isNaN(Number(value))) {
+    return Number(value);
+  }
+  if (typeof sample === 'boolean' && (value === 'true' || value === 'false')) {
+    return value === 'true';
+  }
+  if (sample === null && value === 'null') return null;
+  return value;
+}
+
+function looseEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a == null || b == null) return a == b;
+  return typeof a === 'object' && JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Order values with nulls first, numbers numerically, everything else as strings
+ */
+function compareValues(a: unknown, b: unknown): number {
+  if (a == null || b == null) return a == null ? (b == null ? 0 : -1) : 1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  const left = String(a);
+  const right = String(b);
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+/**
+ * Sort by a single field like the API; ties keep store order
+ */
+function sortDocuments(
+  docs: MockDocument[],
+  orderBy: string | undefined,
+  orderDir: 'asc' | 'desc'
+): MockDocument[] {
+  if (!orderBy) return docs;
+  const direction = orderDir === 'desc' ? -1 : 1;
+  return [...docs].sort((a, b) => compareValues(a[orderBy], b[orderBy]) * direction);
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function project(doc: MockDocument, select: string[] | undefined): MockDocument {
+  if (!select) return doc;
+  return Object.fromEntries(select.filter((field) => field in doc).map((field) => [field, doc[field]]));
+}
+
+function nextId(docs: MockDocument[]): string | number {
+  const ids = docs.map((doc) => doc.id);
+  if (ids.every((id) => typeof id === 'number')) {
+    return Math.max(0, ...(ids as number[])) + 1;
+  }
+  let next = docs.length + 1;
+  while (ids.some((id) => sameId(id, next))) next++;
+  return String(next);
+}
+
+function sameId(a: unknown, b: unknown): boolean {
+  return a !== undefined && a !== null && String(a) === String(b);
+}
+
+function paged<T>(items: T[], params: URLSearchParams): Response {
+  const limit = toCount(params.get('limit'), 50);
+  const offset = toCount(params.get('offset'), 0);
+  return json(200, { data: items.slice(offset, offset + limit), meta: { total: items.length } });
+}
+
+function withoutRoles({ roles: _roles, ...user }: MockUser): User {
+  return user;
+}
+
+function header(headers: Record<string, string> | undefined, name: string): string | undefined {
+  const key = Object.keys(headers ?? {}).find((candidate) => candidate.toLowerCase() === name.toLowerCase());
+  return key ? headers![key] : undefined;
+}
+
+function notFound(message: string): VibeError {
+  return new VibeError({ code: 'NOT_FOUND', status: 404, message });
+}
+
+function json(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
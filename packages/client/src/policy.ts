@@ -0,0 +1,182 @@
+/**
+ * Access Policies
+ *
+ * Declarative per-collection read/write rules. Evaluated by the client before
+ * each request and by the server-side route handler before forwarding.
+ */
+
+import type { CollectionPolicy, PolicyRoles, PolicyUser, VibePolicies } from './types';
+import { ROLE_HIERARCHY, hasRole, meetsRoleLevel } from './auth';
+import { VibeError } from './error';
+
+export type PolicyOperation = 'read' | 'write';
+
+/**
+ * Check roles against a policy requirement
+ *
+ * A number is a minimum role level. A role name listed in `ROLE_HIERARCHY` is
+ * also satisfied by any higher role; other role names must match exactly.
+ *
+ * @example
+ * ```typescript
+ * satisfiesRoles(['vibe_app_admin'], 'vibe_app_user'); // true (higher level)
+ * satisfiesRoles(['editor'], ['editor', 'vibe_client_admin']); // true
+ * satisfiesRoles(['vibe_app_user'], 2); // false
+ * ```
+ */
+export function satisfiesRoles(
+  userRoles: string[] | undefined | null,
+  required: PolicyRoles | undefined
+): boolean {
+  if (required === undefined) return true;
+  if (typeof required === 'number') return meetsRoleLevel(userRoles, required);
+
+  const roles: readonly string[] = typeof required === 'string' ? [required] : required;
+  return roles.some(
+    (role) =>
+      hasRole(userRoles, role) ||
+      (ROLE_HIERARCHY[role] !== undefined && meetsRoleLevel(userRoles, ROLE_HIERARCHY[role]))
+  );
+}
+
+/**
+ * Evaluate a collection's policy for an operation
+ *
+ * @returns The row filter the operation is limited to, if the policy has one
+ * @throws VibeError FORBIDDEN when the user lacks a required role
+ *
+ * @example
+ * ```typescript
+ * const rowFilter = authorizeCollection(policies, 'products', 'write', user);
+ * ```
+ */
+export function authorizeCollection(
+  policies: VibePolicies,
+  collection: string,
+  operation: PolicyOperation,
+  user: PolicyUser | null
+): Record<string, unknown> | undefined {
+  const policy: CollectionPolicy | undefined = policies[collection];
+  if (!policy) return undefined;
+
+  const required = policy[operation];
+  if (!satisfiesRoles(user?.roles, required)) {
+    const requiredRoles = requiredRoleNames(required);
+    throw new VibeError({
+      code: 'FORBIDDEN',
+      status: 403,
+      message: `Missing role ${requiredRoles[0] ?? '(none)'} to ${operation} ${collection}`,
+      details: { collection, operation, missingRole: requiredRoles[0], requiredRoles },
+    });
+  }
+
+  if (!policy.rowFilter) return undefined;
+
+  if (!user) {
+    throw new VibeError({
+      code: 'FORBIDDEN',
+      status: 403,
+      message: `A signed-in user is required to ${operation} ${collection}`,
+      details: { collection, operation },
+    });
+  }
+
+  return policy.rowFilter(user);
+}
+
+/**
+ * Error for a document outside the caller's row filter
+ */
+export function rowFilterError(collection: string, operation: PolicyOperation): VibeError {
+  return new VibeError({
+    code: 'FORBIDDEN',
+    status: 403,
+    message: `Document is outside the rows you may ${operation} in ${collection}`,
+    details: { collection, operation, rowFilter: true },
+  });
+}
+
+/**
+ * Check a document against a filter in `ListOptions.filter` shorthand
+ *
+ * Plain values must be equal; `{ operator, value }` conditions are compared
+ * with the operator.
+ */
+export function matchesFilter(
+  doc: Record<string, unknown>,
+  filter: Record<string, unknown>
+): boolean {
+  return Object.entries(filter).every(([field, condition]) => {
+    if (condition === undefined) return true;
+
+    const actual = doc[field];
+    if (typeof condition !== 'object' || condition === null || !('operator' in condition)) {
+      return sameValue(actual, condition);
+    }
+
+    const { operator, value } = condition as { operator: string; value: unknown };
+    switch (operator) {
+      case 'eq':
+        return sameValue(actual, value);
+      case 'neq':
+        return !sameValue(actual, value);
+      case 'gt':
+        return actual != null && (actual as number) > (value as number);
+      case 'gte':
+        return actual != null && (actual as number) >= (value as number);
+      case 'lt':
+        return actual != null && (actual as number) < (value as number);
+      case 'lte':
+        return actual != null && (actual as number) <= (value as number);
+      case 'in':
+        return Array.isArray(value) && value.some((item) => sameValue(actual, item));
+      case 'nin':
+        return Array.isArray(value) && !value.some((item) => sameValue(actual, item));
+      default:
+        // Operators that can't be checked locally (e.g. like) are left to the server
+        return true;
+    }
+  });
+}
+
+/**
+ * Fill a new document's missing row filter fields and check the rest
+ *
+ * @throws VibeError FORBIDDEN when the document falls outside the row filter
+ */
+export function applyRowFilter<D>(
+  data: D,
+  rowFilter: Record<string, unknown>,
+  collection: string
+): D {
+  const filled: Record<string, unknown> = { ...(data as Record<string, unknown>) };
+  for (const [field, condition] of Object.entries(rowFilter)) {
+    const isOperator =
+      typeof condition === 'object' && condition !== null && 'operator' in condition;
+    if (filled[field] === undefined && condition !== undefined && !isOperator) {
+      filled[field] = condition;
+    }
+  }
+
+  if (!matchesFilter(filled, rowFilter)) {
+    throw rowFilterError(collection, 'write');
+  }
+  return filled as D;
+}
+
+/**
+ * Role names that satisfy a requirement, lowest level first for level requirements
+ */
+function requiredRoleNames(required: PolicyRoles | undefined): string[] {
+  if (typeof required === 'number') {
+    return Object.keys(ROLE_HIERARCHY)
+      .filter((role) => ROLE_HIERARCHY[role] >= required)
+      .sort((a, b) => ROLE_HIERARCHY[a] - ROLE_HIERARCHY[b]);
+  }
+  return typeof required === 'string' ? [required] : [...(required ?? [])];
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  // Ids may arrive as strings or numbers depending on the transport
+  return a === b || (a != null && b != null && typeof a !== 'object' && String(a) === String(b));
+}
@@ -0,0 +1,149 @@
+/**
+ * Query Builder
+ *
+ * Typed, chainable construction of list queries.
+ * Compiles to ListOptions so proxy and direct modes share one code path.
+ */
+
+import type {
+  Collection,
+  FieldName,
+  FieldValue,
+  FilterBuilder,
+  FilterCondition,
+  FilterGroup,
+  FilterGroupBuilder,
+  FilterNode,
+  FilterOperator,
+  IterateOptions,
+  ListOptions,
+  ListResult,
+  OperatorValue,
+  QueryBuilder,
+  RequestOptions,
+} from './types';
+
+export class FilterBuilderImpl<T> implements FilterBuilder<T> {
+  private readonly filters: FilterNode[];
+
+  constructor(filters: FilterNode[] = []) {
+    this.filters = filters;
+  }
+
+  where<K extends FieldName<T>, O extends FilterOperator>(
+    field: K,
+    operator: O,
+    value: OperatorValue<FieldValue<T, K>, O>
+  ): FilterBuilder<T> {
+    const condition: FilterCondition = { field, operator, value };
+    return new FilterBuilderImpl<T>([...this.filters, condition]);
+  }
+
+  and(build: FilterGroupBuilder<T>): FilterBuilder<T> {
+    return new FilterBuilderImpl<T>([...this.filters, buildGroup('and', build)]);
+  }
+
+  or(build: FilterGroupBuilder<T>): FilterBuilder<T> {
+    return new FilterBuilderImpl<T>([...this.filters, buildGroup('or', build)]);
+  }
+
+  not(build: FilterGroupBuilder<T>): FilterBuilder<T> {
+    return new FilterBuilderImpl<T>([...this.filters, buildGroup('not', build)]);
+  }
+
+  toFilters(): FilterNode[] {
+    return [...this.filters];
+  }
+}
+
+export class QueryBuilderImpl<T> implements QueryBuilder<T> {
+  private readonly collection: Collection<T>;
+  private readonly options: ListOptions;
+
+  constructor(collection: Collection<T>, options: ListOptions = {}) {
+    this.collection = collection;
+    this.options = options;
+  }
+
+  where<K extends FieldName<T>, O extends FilterOperator>(
+    field: K,
+    operator: O,
+    value: OperatorValue<FieldValue<T, K>, O>
+  ): QueryBuilder<T> {
+    const condition: FilterCondition = { field, operator, value };
+    return this.withFilter(condition);
+  }
+
+  and(build: FilterGroupBuilder<T>): QueryBuilder<T> {
+    return this.withFilter(buildGroup('and', build));
+  }
+
+  or(build: FilterGroupBuilder<T>): QueryBuilder<T> {
+    return this.withFilter(buildGroup('or', build));
+  }
+
+  not(build: FilterGroupBuilder<T>): QueryBuilder<T> {
+    return this.withFilter(buildGroup('not', build));
+  }
+
+  orderBy(field: FieldName<T>, direction: 'asc' | 'desc' = 'asc'): QueryBuilder<T> {
+    return this.with({ orderBy: field, orderDir: direction });
+  }
+
+  limit(limit: number): QueryBuilder<T> {
+    return this.with({ limit });
+  }
+
+  offset(offset: number): QueryBuilder<T> {
+    return this.with({ offset });
+  }
+
+  toListOptions(): ListOptions {
+    return { ...this.options };
+  }
+
+  list(requestOptions?: RequestOptions): Promise<ListResult<T>> {
+    return this.collection.list(this.toListOptions(), requestOptions);
+  }
+
+  iterate(options: Omit<IterateOptions, keyof ListOptions> = {}): AsyncIterable<T> {
+    return this.collection.iterate(this.toIterateOptions(options));
+  }
+
+  iteratePages(options: Omit<IterateOptions, keyof ListOptions> = {}): AsyncIterable<ListResult<T>> {
+    return this.collection.iteratePages(this.toIterateOptions(options));
+  }
+
+  then<TResult1 = ListResult<T>, TResult2 = never>(
+    onfulfilled?: ((value: ListResult<T>) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return this.list().then(onfulfilled, onrejected);
+  }
+
+  /**
+   * Return a new builder with the given options merged in
+   */
+  private with(options: ListOptions): QueryBuilder<T> {
+    return new QueryBuilderImpl(this.collection, { ...this.options, ...options });
+  }
+
+  /**
+   * Build iterate options; the builder's limit becomes the default page size
+   */
+  private toIterateOptions(options: Omit<IterateOptions, keyof ListOptions>): IterateOptions {
+    const { limit, ...listOptions } = this.options;
+    return { ...listOptions, pageSize: limit, ...options };
+  }
+
+  private withFilter(node: FilterNode): QueryBuilder<T> {
+    return this.with({ where: [...(this.options.where ?? []), node] });
+  }
+}
+
+/**
+ * Run a group callback against an empty builder
+ */
+function buildGroup<T>(logic: FilterGroup['logic'], build: FilterGroupBuilder<T>): FilterGroup {
+  return { logic, filters: build(new FilterBuilderImpl<T>()).toFilters() };
+}
@@ -0,0 +1,105 @@
+import { QueryClient } from '@tanstack/react-query';
+import { createElement } from 'react';
+import { act, create, type ReactTestRenderer } from 'react-test-renderer';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { VibeProvider, useVibeSubscription, vibeKeys } from './react';
+import { createMockVibeClient, type MockVibeClient } from './testing';
+import type { ListOptions, ListResult } from './types';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+type Todo = {
+  id: number;
+  title: string;
+  done: boolean;
+};
+
+const todos: Todo[] = [
+  { id: 1, title: 'Write tests', done: false },
+  { id: 2, title: 'Ship', done: false },
+];
+
+function page(data: Todo[]): ListResult<Todo> {
+  return { data, pagination: { total: data.length, limit: 20, offset: 0, hasMore: false } };
+}
+
+function Subscriber() {
+  useVibeSubscription('todos');
+  return null;
+}
+
+describe('useVibeSubscription cache patching', () => {
+  let vibe: MockVibeClient;
+  let queryClient: QueryClient;
+  let renderer: ReactTestRenderer;
+
+  const open: ListOptions = {};
+  const pending: ListOptions = { filter: { done: false } };
+  const where: ListOptions = { where: [{ field: 'done', operator: 'eq', value: false }] };
+
+  const cached = (options: ListOptions) =>
+    queryClient.getQueryData<ListResult<Todo>>(vibeKeys.list('todos', options));
+
+  beforeEach(async () => {
+    vibe = createMockVibeClient({ tables: { todos } });
+    queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+    for (const options of [open, pending, where]) {
+      queryClient.setQueryData(vibeKeys.list('todos', options), page(todos));
+    }
+
+    await act(async () => {
+      renderer = create(
+        createElement(VibeProvider, { client: vibe, queryClient }, createElement(Subscriber))
+      );
+    });
+    await vi.waitFor(() => expect(vibe.requests.length).toBeGreaterThan(0));
+  });
+
+  afterEach(() => {
+    act(() => renderer.unmount());
+    queryClient.clear();
+  });
+
+  it('replaces an updated document in lists it still matches', async () => {
+    await vibe.collection('todos').update(1, { title: 'Write more tests' });
+
+    await vi.waitFor(() => expect(cached(open)?.data[0].title).toBe('Write more tests'));
+    expect(cached(pending)?.data[0].title).toBe('Write more tests');
+    expect(queryClient.getQueryData(vibeKeys.detail('todos', 1))).toMatchObject({
+      title: 'Write more tests',
+    });
+  });
+
+  it('drops an updated document from lists whose filter it no longer matches', async () => {
+    await vibe.collection('todos').update(1, { done: true });
+
+    await vi.waitFor(() => expect(cached(pending)?.data.map((todo) => todo.id)).toEqual([2]));
+    expect(cached(pending)?.pagination.total).toBe(1);
+    expect(cached(open)?.data.find((todo) => todo.id === 1)?.done).toBe(true);
+  });
+
+  it('refetches lists with where conditions that hold an updated document', async () => {
+    await vibe.collection('todos').update(1, { done: true });
+
+    await vi.waitFor(() =>
+      expect(queryClient.getQueryState(vibeKeys.list('todos', where))?.isInvalidated).toBe(true)
+    );
+    expect(queryClient.getQueryState(vibeKeys.list('todos', open))?.isInvalidated).toBe(false);
+  });
+
+  it('removes a deleted document from every list', async () => {
+    await vibe.collection('todos').delete(2);
+
+    await vi.waitFor(() => expect(cached(open)?.data.map((todo) => todo.id)).toEqual([1]));
+    expect(cached(pending)?.data.map((todo) => todo.id)).toEqual([1]);
+    expect(cached(open)?.pagination.total).toBe(1);
+  });
+
+  it('refetches lists on insert', async () => {
+    await vibe.collection('todos').create({ title: 'Celebrate', done: false });
+
+    await vi.waitFor(() =>
+      expect(queryClient.getQueryState(vibeKeys.list('todos', open))?.isInvalidated).toBe(true)
+    );
+  });
+});
@@ -32,18 +32,55 @@
  */
 
 import {
+  QueryClientProvider,
+  QueryErrorResetBoundary,
+  useInfiniteQuery,
   useQuery,
   useMutation,
   useQueryClient,
+  useSuspenseQuery,
+  type InfiniteData,
+  type QueryClient,
+  type QueryKey,
   type UseQueryResult,
   type UseMutationResult,
 } from '@tanstack/react-query';
+import {
+  Component,
+  Fragment,
+  createContext,
+  createElement,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode,
+} from 'react';
+import { hasAllRoles, hasAnyRole, meetsRoleLevel } from './auth';
 import { createVibeClient } from './client';
-import { VibeError } from './error';
+import { VibeError, notFoundError } from './error';
+import { vibeKeys } from './keys';
+import { matchesFilter, satisfiesRoles, type PolicyOperation } from './policy';
 import type {
+  AggregateOptions,
+  AggregateRow,
+  BulkOptions,
+  BulkResult,
+  BulkTarget,
+  ChangeEvent,
+  FieldName,
+  FieldValue,
   ListOptions,
+  ListResult,
   Pagination,
+  PolicyUser,
+  UpsertResult,
+  UseVibeInfiniteCollectionOptions,
+  VibeClient,
   VibeClientConfig,
+  VibeErrorCode,
+  VibePolicies,
   Role,
   CreateRole,
   UpdateRole,
@@ -55,12 +92,104 @@ import type {
 // Context & Configuration
 // =============================================================================
 
+interface VibeClientContextValue {
+  client: VibeClient;
+  /** Config the client was created from, when the provider created it */
+  config: VibeClientConfig | undefined;
+}
+
+const VibeClientContext = createContext<VibeClientContextValue | null>(null);
+
+export interface VibeProviderProps {
+  /** Client for hooks below this provider */
+  client?: VibeClient;
+
+  /**
+   * Config to create the client from when `client` is not given. The client
+   * is recreated when this object changes, so keep it stable (e.g. useMemo).
+   */
+  config?: VibeClientConfig;
+
+  /**
+   * Query cache for hooks below this provider. Give a provider whose client
+   * points at a different backend its own cache, since query keys don't
+   * include the client.
+   */
+  queryClient?: QueryClient;
+
+  children?: ReactNode;
+}
+
+/**
+ * Provide the Vibe client to hooks below it
+ *
+ * Hooks resolve the nearest provider, falling back to the client configured
+ * with `configureVibeClient`. Providers can be nested, e.g. a tenant-admin
+ * panel using a different client ID inside an app.
+ *
+ * @example
+ * ```typescript
+ * // app/providers.tsx
+ * 'use client';
+ *
+ * export function Providers({ children }) {
+ *   const { data: session } = useSession();
+ *   const client = useMemo(
+ *     () => createVibeClient({ routeUrl: '/api/vibe', getAccessToken: async () => session?.accessToken ?? null }),
+ *     [session?.accessToken]
+ *   );
+ *
+ *   return (
+ *     <QueryClientProvider client={queryClient}>
+ *       <VibeProvider client={client}>{children}</VibeProvider>
+ *     </QueryClientProvider>
+ *   );
+ * }
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Embedded panel for another tenant
+ * <VibeProvider client={tenantAdminClient} queryClient={tenantAdminQueryClient}>
+ *   <TenantAdminPanel />
+ * </VibeProvider>
+ * ```
+ */
+export function VibeProvider({ client, config, queryClient, children }: VibeProviderProps) {
+  const value = useMemo<VibeClientContextValue>(
+    () => ({ client: client ?? createVibeClient(config), config: client ? undefined : config }),
+    [client, config]
+  );
+
+  const content = queryClient
+    ? createElement(QueryClientProvider, { client: queryClient }, children)
+    : children;
+  return createElement(VibeClientContext.Provider, { value }, content);
+}
+
+/**
+ * Vibe client from the nearest `VibeProvider`, or the client configured with
+ * `configureVibeClient`
+ *
+ * @example
+ * ```typescript
+ * const vibe = useVibeClient();
+ * const onExport = () => vibe.collection('orders').list({ limit: 1000 });
+ * ```
+ */
+export function useVibeClient(): VibeClient {
+  return useContext(VibeClientContext)?.client ?? getConfiguredClient();
+}
+
 let clientConfig: VibeClientConfig | undefined;
+let configuredClient: VibeClient | null = null;
 
 /**
- * Configure the Vibe client for React hooks
+ * Configure the Vibe client for React hooks outside any `VibeProvider`
  *
  * Call this once at app initialization (e.g., in a provider or layout).
+ * The config is shared by the whole module, so prefer `VibeProvider` when
+ * rendering on the server for several requests.
  *
  * @param config - Client configuration
  *
@@ -84,36 +213,27 @@ let clientConfig: VibeClientConfig | undefined;
  * ```
  */
 export function configureVibeClient(config: VibeClientConfig): void {
-  clientConfig = config;
+  if (config !== clientConfig) {
+    clientConfig = config;
+    configuredClient = null;
+  }
 }
 
 /**
- * Get the configured Vibe client for hooks
+ * Client for hooks outside any provider, created once per configuration
  */
-function getClient() {
-  return createVibeClient(clientConfig);
+function getConfiguredClient(): VibeClient {
+  if (!configuredClient) {
+    configuredClient = createVibeClient(clientConfig);
+  }
+  return configuredClient;
 }
 
 // =============================================================================
 // Query Key Factories
 // =============================================================================
 
-export const vibeKeys = {
-  all: ['vibe'] as const,
-  collections: () => [...vibeKeys.all, 'collection'] as const,
-  collection: (name: string) => [...vibeKeys.collections(), name] as const,
-  list: (name: string, options?: ListOptions) =>
-    [...vibeKeys.collection(name), 'list', options] as const,
-  detail: (name: string, id: string | number) =>
-    [...vibeKeys.collection(name), 'detail', id] as const,
-  admin: () => [...vibeKeys.all, 'admin'] as const,
-  roles: () => [...vibeKeys.admin(), 'roles'] as const,
-  role: (id: number) => [...vibeKeys.roles(), id] as const,
-  users: () => [...vibeKeys.admin(), 'users'] as const,
-  user: (id: string) => [...vibeKeys.users(), id] as const,
-  userRoles: (id: string) => [...vibeKeys.user(id), 'roles'] as const,
-  tenant: () => [...vibeKeys.admin(), 'tenant'] as const,
-};
+export { vibeKeys };
 
 // =============================================================================
 // Collection Hooks
@@ -156,7 +276,7 @@ export function useVibeCollection<T = unknown>(
   options: UseVibeCollectionOptions = {}
 ): UseVibeCollectionResult<T> {
   const { enabled = true, ...listOptions } = options;
-  const client = getClient();
+  const client = useVibeClient();
 
   const query = useQuery({
     queryKey: vibeKeys.list(collection, listOptions),
@@ -178,6 +298,92 @@ export function useVibeCollection<T = unknown>(
   };
 }
 
+export interface UseVibeInfiniteCollectionResult<T> {
+  /** Documents of all loaded pages, in order */
+  data: T[] | undefined;
+  /** Loaded pages */
+  pages: ListResult<T>[] | undefined;
+  /** Total matching documents, from the first page */
+  total: number | undefined;
+  hasNextPage: boolean;
+  fetchNextPage: () => void;
+  isFetchingNextPage: boolean;
+  isLoading: boolean;
+  isFetching: boolean;
+  isError: boolean;
+  error: VibeError | null;
+  refetch: () => void;
+}
+
+/**
+ * Hook to load a collection page by page, e.g. for infinite scroll
+ *
+ * Pages are cached under `vibeKeys.infinite`, so mutations and
+ * `useVibeSubscription` keep them current like other list queries.
+ *
+ * @param collection - Collection name
+ * @param options - List options (limit is the page size) and paging mode
+ * @returns Flattened documents plus `fetchNextPage` / `hasNextPage`
+ *
+ * @example
+ * ```typescript
+ * const { data, hasNextPage, fetchNextPage, isFetchingNextPage } =
+ *   useVibeInfiniteCollection<Post>('posts', {
+ *     limit: 20,
+ *     orderBy: 'created_at',
+ *     orderDir: 'desc',
+ *     paging: 'cursor',
+ *   });
+ *
+ * <Feed posts={data ?? []} onEndReached={() => hasNextPage && fetchNextPage()} />
+ * ```
+ */
+export function useVibeInfiniteCollection<T = unknown>(
+  collection: string,
+  options: UseVibeInfiniteCollectionOptions = {}
+): UseVibeInfiniteCollectionResult<T> {
+  const { enabled = true, paging = 'offset', ...listOptions } = options;
+  const client = useVibeClient();
+
+  const query = useInfiniteQuery({
+    queryKey: vibeKeys.infinite(collection, { ...listOptions, paging }),
+    queryFn: async ({ pageParam }) => {
+      const page: ListOptions =
+        paging === 'cursor'
+          ? { ...listOptions, cursor: pageParam as string | null }
+          : { ...listOptions, offset: pageParam as number };
+      return client.collection<T>(collection).list(page);
+    },
+    initialPageParam: (paging === 'cursor' ? null : 0) as string | number | null,
+    getNextPageParam: (lastPage: ListResult<T>) => {
+      const { pagination, data } = lastPage;
+      if (paging === 'cursor') {
+        return pagination.nextCursor ?? undefined;
+      }
+      return pagination.hasMore && data.length > 0 ? pagination.offset + data.length : undefined;
+    },
+    enabled,
+  });
+
+  const pages = query.data?.pages;
+
+  return {
+    data: pages?.flatMap((page) => page.data),
+    pages,
+    total: pages?.[0]?.pagination.total,
+    hasNextPage: query.hasNextPage,
+    fetchNextPage: () => {
+      query.fetchNextPage();
+    },
+    isFetchingNextPage: query.isFetchingNextPage,
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    isError: query.isError,
+    error: query.error ? VibeError.fromError(query.error) : null,
+    refetch: () => query.refetch(),
+  };
+}
+
 export interface UseVibeDocumentOptions {
   /** Enable or disable the query */
   enabled?: boolean;
@@ -211,7 +417,7 @@ export function useVibeDocument<T = unknown>(
   options: UseVibeDocumentOptions = {}
 ): UseVibeDocumentResult<T> {
   const { enabled = true } = options;
-  const client = getClient();
+  const client = useVibeClient();
 
   const query = useQuery({
     queryKey: vibeKeys.detail(collection, id ?? ''),
@@ -232,178 +438,117 @@ export function useVibeDocument<T = unknown>(
   };
 }
 
-// =============================================================================
-// Mutation Hooks
-// =============================================================================
-
-export interface UseVibeCreateResult<T> {
-  mutate: (data: Partial<T>) => void;
-  mutateAsync: (data: Partial<T>) => Promise<T>;
-  isLoading: boolean;
-  isError: boolean;
-  error: VibeError | null;
-  data: T | undefined;
-  reset: () => void;
-}
-
 /**
- * Hook to create a new document in a collection
+ * Hook to fetch the first document matching a filter
  *
  * @param collection - Collection name
- * @returns Mutation result with mutate function
+ * @param filter - Field filters (pass null to disable query)
+ * @param options - Query options
+ * @returns Query result with the matching document, or undefined if none
  *
  * @example
  * ```typescript
- * const { mutate, isLoading } = useVibeCreate('products');
- *
- * const handleCreate = () => {
- *   mutate({ name: 'New Product', price: 9.99 });
- * };
+ * const { data: profile } = useVibeFindOne('profiles', { user_id: session.user.id });
  * ```
  */
-export function useVibeCreate<T = unknown>(collection: string): UseVibeCreateResult<T> {
-  const client = getClient();
-  const queryClient = useQueryClient();
+export function useVibeFindOne<T = unknown>(
+  collection: string,
+  filter: Record<string, unknown> | null,
+  options: UseVibeDocumentOptions = {}
+): UseVibeDocumentResult<T> {
+  const { enabled = true } = options;
+  const client = useVibeClient();
 
-  const mutation = useMutation({
-    mutationFn: async (data: Partial<T>) => {
-      return client.collection<T>(collection).create(data);
-    },
-    onSuccess: () => {
-      // Invalidate list queries for this collection
-      queryClient.invalidateQueries({ queryKey: vibeKeys.collection(collection) });
+  const query = useQuery({
+    queryKey: vibeKeys.findOne(collection, filter ?? {}),
+    queryFn: async () => {
+      if (filter === null) return null;
+      return client.collection<T>(collection).findOne(filter);
     },
+    enabled: enabled && filter !== null,
   });
 
   return {
-    mutate: mutation.mutate,
-    mutateAsync: mutation.mutateAsync,
-    isLoading: mutation.isPending,
-    isError: mutation.isError,
-    error: mutation.error ? VibeError.fromError(mutation.error) : null,
-    data: mutation.data,
-    reset: mutation.reset,
+    data: query.data ?? undefined,
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    isError: query.isError,
+    error: query.error ? VibeError.fromError(query.error) : null,
+    refetch: () => query.refetch(),
   };
 }
 
-export interface UseVibeUpdateResult<T> {
-  mutate: (args: { id: string | number; data: Partial<T> }) => void;
-  mutateAsync: (args: { id: string | number; data: Partial<T> }) => Promise<T>;
-  isLoading: boolean;
-  isError: boolean;
-  error: VibeError | null;
-  data: T | undefined;
-  reset: () => void;
-}
+// =============================================================================
+// Aggregate Hooks
+// =============================================================================
 
 /**
- * Hook to update an existing document
- *
- * @param collection - Collection name
- * @returns Mutation result with mutate function
+ * Hook to count documents matching a filter
  *
  * @example
  * ```typescript
- * const { mutate, isLoading } = useVibeUpdate('products');
- *
- * const handleUpdate = () => {
- *   mutate({ id: 123, data: { price: 12.99 } });
- * };
+ * const { data: openOrders } = useVibeCount('orders', { status: 'open' });
  * ```
  */
-export function useVibeUpdate<T = unknown>(collection: string): UseVibeUpdateResult<T> {
-  const client = getClient();
-  const queryClient = useQueryClient();
+export function useVibeCount(
+  collection: string,
+  filter?: Record<string, unknown>,
+  options: UseVibeDocumentOptions = {}
+): UseVibeDocumentResult<number> {
+  const { enabled = true } = options;
+  const client = useVibeClient();
 
-  const mutation = useMutation({
-    mutationFn: async ({ id, data }: { id: string | number; data: Partial<T> }) => {
-      return client.collection<T>(collection).update(id, data);
-    },
-    onSuccess: (_, variables) => {
-      // Invalidate both list and detail queries
-      queryClient.invalidateQueries({ queryKey: vibeKeys.collection(collection) });
-      queryClient.invalidateQueries({ queryKey: vibeKeys.detail(collection, variables.id) });
-    },
+  const query = useQuery({
+    queryKey: vibeKeys.count(collection, filter),
+    queryFn: async () => client.collection(collection).count(filter),
+    enabled,
   });
 
   return {
-    mutate: mutation.mutate,
-    mutateAsync: mutation.mutateAsync,
-    isLoading: mutation.isPending,
-    isError: mutation.isError,
-    error: mutation.error ? VibeError.fromError(mutation.error) : null,
-    data: mutation.data,
-    reset: mutation.reset,
+    data: query.data,
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    isError: query.isError,
+    error: query.error ? VibeError.fromError(query.error) : null,
+    refetch: () => query.refetch(),
   };
 }
 
-export interface UseVibeDeleteResult {
-  mutate: (id: string | number) => void;
-  mutateAsync: (id: string | number) => Promise<void>;
-  isLoading: boolean;
-  isError: boolean;
-  error: VibeError | null;
-  reset: () => void;
-}
-
 /**
- * Hook to delete a document
- *
- * @param collection - Collection name
- * @returns Mutation result with mutate function
+ * Hook to compute grouped count, sum, avg, min and max
  *
  * @example
  * ```typescript
- * const { mutate, isLoading } = useVibeDelete('products');
- *
- * const handleDelete = () => {
- *   mutate(123);
- * };
+ * const { data: revenue } = useVibeAggregate('orders', {
+ *   groupBy: ['region'],
+ *   sum: ['total'],
+ * });
+ * revenue?.map(row => `${row.region}: ${row.sum.total}`);
  * ```
  */
-export function useVibeDelete(collection: string): UseVibeDeleteResult {
-  const client = getClient();
-  const queryClient = useQueryClient();
-
-  const mutation = useMutation({
-    mutationFn: async (id: string | number) => {
-      await client.collection(collection).delete(id);
-    },
-    onSuccess: (_, id) => {
-      // Invalidate list queries and remove detail from cache
-      queryClient.invalidateQueries({ queryKey: vibeKeys.collection(collection) });
-      queryClient.removeQueries({ queryKey: vibeKeys.detail(collection, id) });
-    },
-  });
-
-  return {
-    mutate: mutation.mutate,
-    mutateAsync: mutation.mutateAsync,
-    isLoading: mutation.isPending,
-    isError: mutation.isError,
-    error: mutation.error ? VibeError.fromError(mutation.error) : null,
-    reset: mutation.reset,
-  };
-}
-
-// =============================================================================
-// Admin Hooks
-// =============================================================================
-
-/**
- * Hook to fetch roles list
- */
-export function useVibeRoles(options: ListOptions = {}): UseVibeCollectionResult<Role> {
-  const client = getClient();
+export function useVibeAggregate<
+  T = unknown,
+  const G extends FieldName<T> = never,
+  const Sum extends FieldName<T> = never,
+  const Avg extends FieldName<T> = never,
+  const Min extends FieldName<T> = never,
+  const Max extends FieldName<T> = never,
+>(
+  collection: string,
+  aggregateOptions: AggregateOptions<T, G, Sum, Avg, Min, Max>,
+  options: UseVibeDocumentOptions = {}
+): UseVibeDocumentResult<Array<AggregateRow<T, G, Sum, Avg, Min, Max>>> {
+  const { enabled = true } = options;
+  const client = useVibeClient();
 
   const query = useQuery({
-    queryKey: vibeKeys.roles(),
-    queryFn: async () => client.admin.roles.list(options),
+    queryKey: vibeKeys.aggregate(collection, aggregateOptions),
+    queryFn: async () => client.collection<T>(collection).aggregate(aggregateOptions),
+    enabled,
   });
 
   return {
-    data: query.data?.data,
-    pagination: query.data?.pagination,
+    data: query.data,
     isLoading: query.isLoading,
     isFetching: query.isFetching,
     isError: query.isError,
@@ -413,18 +558,30 @@ export function useVibeRoles(options: ListOptions = {}): UseVibeCollectionResult
 }
 
 /**
- * Hook to fetch a single role
+ * Hook to fetch the distinct values of a field
+ *
+ * @example
+ * ```typescript
+ * const { data: categories } = useVibeDistinct('products', 'category');
+ * ```
  */
-export function useVibeRole(id: number): UseVibeDocumentResult<Role> {
-  const client = getClient();
+export function useVibeDistinct<T = unknown, K extends FieldName<T> = FieldName<T>>(
+  collection: string,
+  field: K,
+  filter?: Record<string, unknown>,
+  options: UseVibeDocumentOptions = {}
+): UseVibeDocumentResult<Array<FieldValue<T, K>>> {
+  const { enabled = true } = options;
+  const client = useVibeClient();
 
   const query = useQuery({
-    queryKey: vibeKeys.role(id),
-    queryFn: async () => client.admin.roles.get(id),
+    queryKey: vibeKeys.distinct(collection, field, filter),
+    queryFn: async () => client.collection<T>(collection).distinct(field, filter),
+    enabled,
   });
 
   return {
-    data: query.data ?? undefined,
+    data: query.data,
     isLoading: query.isLoading,
     isFetching: query.isFetching,
     isError: query.isError,
@@ -433,16 +590,863 @@ export function useVibeRole(id: number): UseVibeDocumentResult<Role> {
   };
 }
 
-/**
- * Hook to create a role
- */
-export function useVibeCreateRole(): UseVibeCreateResult<Role> {
-  const client = getClient();
-  const queryClient = useQueryClient();
+// =============================================================================
+// Realtime Hooks
+// =============================================================================
 
-  const mutation = useMutation({
-    mutationFn: async (data: CreateRole) => client.admin.roles.create(data),
-    onSuccess: () => {
+export interface UseVibeSubscriptionOptions<T = unknown> {
+  /** Enable or disable the subscription */
+  enabled?: boolean;
+
+  /** Called for every change, after the cache has been patched */
+  onEvent?: (event: ChangeEvent<T>) => void;
+}
+
+export interface UseVibeSubscriptionResult {
+  /** The stream is currently open */
+  isConnected: boolean;
+
+  /** Last connection error, cleared on reconnect */
+  error: VibeError | null;
+}
+
+/**
+ * Hook to keep cached queries of a collection in sync with server changes
+ *
+ * Updates patch matching documents in cached lists and set the detail query;
+ * deletes remove them. Inserts invalidate list queries, since only the server
+ * knows where a new document sorts. Counts and other derived queries of the
+ * collection are invalidated on every change.
+ *
+ * @param collection - Collection name
+ * @param filter - Only stream changes to matching documents (null for all)
+ *
+ * @example
+ * ```typescript
+ * useVibeSubscription('messages', { room_id: roomId });
+ * const { data: messages } = useVibeCollection('messages', { filter: { room_id: roomId } });
+ * ```
+ */
+export function useVibeSubscription<T = unknown>(
+  collection: string,
+  filter: Record<string, unknown> | null = null,
+  options: UseVibeSubscriptionOptions<T> = {}
+): UseVibeSubscriptionResult {
+  const { enabled = true } = options;
+  const client = useVibeClient();
+  const queryClient = useQueryClient();
+  const [isConnected, setConnected] = useState(false);
+  const [error, setError] = useState<VibeError | null>(null);
+
+  // Keep the latest callback without resubscribing on every render
+  const onEventRef = useRef(options.onEvent);
+  onEventRef.current = options.onEvent;
+
+  const filterKey = JSON.stringify(filter);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const subscription = client.collection<T>(collection).subscribe(
+      filter,
+      (event) => {
+        applyChange(queryClient, collection, event);
+        onEventRef.current?.(event);
+      },
+      {
+        onOpen: () => {
+          setConnected(true);
+          setError(null);
+        },
+        onError: (err) => {
+          setConnected(false);
+          setError(err);
+        },
+      }
+    );
+
+    return () => {
+      subscription.unsubscribe();
+      setConnected(false);
+    };
+    // The filter is tracked by value
+  }, [client, collection, filterKey, enabled, queryClient]);
+
+  return { isConnected, error };
+}
+
+/**
+ * Patch the query cache for one change event
+ */
+function applyChange<T>(
+  queryClient: ReturnType<typeof useQueryClient>,
+  collection: string,
+  event: ChangeEvent<T>
+): void {
+  const sameId = hasId(event.id);
+
+  const removeFrom = (page: ListResult<T>): ListResult<T> => ({
+    data: page.data.filter((doc) => !sameId(doc)),
+    pagination: { ...page.pagination, total: Math.max(0, page.pagination.total - 1) },
+  });
+  const replaceIn = (page: ListResult<T>): ListResult<T> => ({
+    ...page,
+    data: page.data.map((doc) => (sameId(doc) ? event.data! : doc)),
+  });
+
+  if (event.type === 'delete') {
+    queryClient.removeQueries({ queryKey: vibeKeys.detail(collection, event.id) });
+    patchListQueries(queryClient, collection, sameId, removeFrom);
+  } else if (event.data !== undefined) {
+    queryClient.setQueryData(vibeKeys.detail(collection, event.id), event.data);
+    if (event.type === 'update') {
+      // Lists whose filter the document no longer matches drop it
+      const fits = (query: { queryKey: QueryKey }) =>
+        fitsFilter(listOptionsOf(collection, query), event.data);
+      patchListQueries(queryClient, collection, sameId, replaceIn, fits);
+      patchListQueries(queryClient, collection, sameId, removeFrom, (query) => !fits(query));
+
+      // `where` conditions can't be checked locally
+      queryClient.invalidateQueries({
+        queryKey: vibeKeys.collection(collection),
+        predicate: (query) =>
+          (query.queryKey[3] === 'list' || query.queryKey[3] === 'infinite') &&
+          Boolean(listOptionsOf(collection, query)?.where?.length) &&
+          listContains(query.state.data, sameId),
+      });
+    }
+  }
+
+  if (event.type === 'insert') {
+    queryClient.invalidateQueries({ queryKey: vibeKeys.lists(collection) });
+    queryClient.invalidateQueries({ queryKey: vibeKeys.infiniteLists(collection) });
+  }
+
+  // Counts, aggregates, findOne results and other derived queries
+  queryClient.invalidateQueries({
+    queryKey: vibeKeys.collection(collection),
+    predicate: (query) => !PATCHED_QUERY_KINDS.has(query.queryKey[3] as string),
+  });
+}
+
+/** Query kinds `applyChange` patches in place rather than invalidating */
+const PATCHED_QUERY_KINDS = new Set(['list', 'infinite', 'detail']);
+
+/**
+ * List options of a cached `vibeKeys.list` or `vibeKeys.infinite` query
+ */
+function listOptionsOf(collection: string, query: { queryKey: QueryKey }): ListOptions | undefined {
+  return query.queryKey[vibeKeys.lists(collection).length] as ListOptions | undefined;
+}
+
+/**
+ * Whether a document matches a list's `filter` (lists without one take any)
+ */
+function fitsFilter(options: ListOptions | undefined, doc: unknown): boolean {
+  return !options?.filter || matchesFilter(doc as Record<string, unknown>, options.filter);
+}
+
+/**
+ * Whether cached list or infinite list data holds a matching document
+ */
+function listContains(data: unknown, contains: (doc: unknown) => boolean): boolean {
+  const pages = (data as Partial<InfiniteData<ListResult<unknown>>> | undefined)?.pages;
+  return (pages ?? (data ? [data as ListResult<unknown>] : [])).some((page) =>
+    page.data.some(contains)
+  );
+}
+
+/**
+ * Apply a page transform to every cached list and infinite list page that
+ * contains a matching document, optionally only in the lists `predicate` accepts
+ */
+function patchListQueries<T>(
+  queryClient: ReturnType<typeof useQueryClient>,
+  collection: string,
+  contains: (doc: unknown) => boolean,
+  patch: (page: ListResult<T>) => ListResult<T>,
+  predicate?: (query: { queryKey: QueryKey }) => boolean
+): void {
+  queryClient.setQueriesData<ListResult<T>>(
+    { queryKey: vibeKeys.lists(collection), predicate },
+    (old) => (old && old.data.some(contains) ? patch(old) : old)
+  );
+  queryClient.setQueriesData<InfiniteData<ListResult<T>>>(
+    { queryKey: vibeKeys.infiniteLists(collection), predicate },
+    (old) => {
+      if (!old || !old.pages.some((page) => page.data.some(contains))) return old;
+      return { ...old, pages: old.pages.map(patch) };
+    }
+  );
+}
+
+// =============================================================================
+// Mutation Hooks
+// =============================================================================
+
+export interface UseVibeMutationOptions<TData, TVariables> {
+  /**
+   * Patch cached lists and documents before the server responds, roll back
+   * if the mutation fails, and reconcile with the server's copy when it
+   * succeeds. Default: false
+   */
+  optimistic?: boolean;
+
+  /** Called before the mutation is sent (after the optimistic patch) */
+  onMutate?: (variables: TVariables) => unknown;
+
+  /** Called with the server's result (after the cache is reconciled) */
+  onSuccess?: (data: TData, variables: TVariables) => unknown;
+
+  /** Called when the mutation fails (after the optimistic patch is rolled back) */
+  onError?: (error: VibeError, variables: TVariables) => unknown;
+
+  /** Called after success or failure */
+  onSettled?: (data: TData | undefined, error: VibeError | null, variables: TVariables) => unknown;
+}
+
+/** Cache entries saved before an optimistic patch */
+interface OptimisticContext {
+  snapshot: Array<[QueryKey, unknown]>;
+  /** Id of the optimistically created document */
+  id?: string | number;
+}
+
+let tempIdCounter = 0;
+
+/**
+ * Save the list, infinite list and (optionally) detail queries of a collection
+ * after cancelling their fetches, so a refetch can't overwrite the patch
+ */
+async function snapshotQueries(
+  queryClient: QueryClient,
+  collection: string,
+  id?: string | number
+): Promise<OptimisticContext> {
+  const keys: QueryKey[] = [vibeKeys.lists(collection), vibeKeys.infiniteLists(collection)];
+  if (id !== undefined) {
+    keys.push(vibeKeys.detail(collection, id));
+  }
+
+  await Promise.all(keys.map((queryKey) => queryClient.cancelQueries({ queryKey })));
+  return { snapshot: keys.flatMap((queryKey) => queryClient.getQueriesData({ queryKey })) };
+}
+
+function restoreQueries(queryClient: QueryClient, context: OptimisticContext | undefined): void {
+  for (const [queryKey, data] of context?.snapshot ?? []) {
+    queryClient.setQueryData(queryKey, data);
+  }
+}
+
+/**
+ * Add a document to the top of the first page of the cached lists it belongs
+ * at the top of. Other lists keep their data until the create invalidates them.
+ */
+function prependToLists<T>(queryClient: QueryClient, collection: string, doc: T): void {
+  const prepend = (page: ListResult<T>): ListResult<T> => ({
+    data: [doc, ...page.data],
+    pagination: { ...page.pagination, total: page.pagination.total + 1 },
+  });
+  const takesDocFirst = (query: { queryKey: QueryKey }) =>
+    listTakesNewFirst(listOptionsOf(collection, query), doc);
+
+  queryClient.setQueriesData<ListResult<T>>(
+    { queryKey: vibeKeys.lists(collection), predicate: takesDocFirst },
+    (old) => (old && old.pagination.offset === 0 ? prepend(old) : old)
+  );
+  queryClient.setQueriesData<InfiniteData<ListResult<T>>>(
+    { queryKey: vibeKeys.infiniteLists(collection), predicate: takesDocFirst },
+    (old) => (old?.pages.length ? { ...old, pages: [prepend(old.pages[0]), ...old.pages.slice(1)] } : old)
+  );
+}
+
+/**
+ * Whether a new document belongs at the top of a list's first page: it
+ * matches the list's filter, and the list is newest first (descending by id
+ * or by a field the server fills in, such as created_at). Lists without an
+ * order come back in whatever order the server picks.
+ */
+function listTakesNewFirst(options: ListOptions | undefined, doc: unknown): boolean {
+  const { filter, where, orderBy, orderDir, offset, cursor } = options ?? {};
+  const record = doc as Record<string, unknown>;
+
+  if (where?.length || offset || cursor) return false;
+  if (!orderBy || orderDir !== 'desc') return false;
+  if (filter && !matchesFilter(record, filter)) return false;
+  return orderBy === 'id' || record[orderBy] === undefined;
+}
+
+/**
+ * Replace a document in every cached list that contains it
+ */
+function replaceInLists<T>(
+  queryClient: QueryClient,
+  collection: string,
+  id: string | number,
+  replace: (doc: T) => T
+): void {
+  const matches = hasId(id);
+  patchListQueries<T>(queryClient, collection, matches, (page) => ({
+    ...page,
+    data: page.data.map((doc) => (matches(doc) ? replace(doc) : doc)),
+  }));
+}
+
+/**
+ * Match documents by id, comparing as strings
+ */
+function hasId(id: string | number): (doc: unknown) => boolean {
+  return (doc) => String((doc as { id?: unknown } | null)?.id) === String(id);
+}
+
+export interface UseVibeCreateResult<T> {
+  mutate: (data: Partial<T>) => void;
+  mutateAsync: (data: Partial<T>) => Promise<T>;
+  isLoading: boolean;
+  isError: boolean;
+  error: VibeError | null;
+  data: T | undefined;
+  reset: () => void;
+}
+
+/**
+ * Hook to create a new document in a collection
+ *
+ * @param collection - Collection name
+ * @param options - Optimistic mode and lifecycle callbacks
+ * @returns Mutation result with mutate function
+ *
+ * @example
+ * ```typescript
+ * const { mutate, isLoading } = useVibeCreate('products');
+ *
+ * const handleCreate = () => {
+ *   mutate({ name: 'New Product', price: 9.99 });
+ * };
+ *
+ * // Show the new item at once (with a temporary 'temp-N' id)
+ * const create = useVibeCreate('todos', {
+ *   optimistic: true,
+ *   onError: (error) => toast.error(error.message),
+ * });
+ * ```
+ */
+export function useVibeCreate<T = unknown>(
+  collection: string,
+  options: UseVibeMutationOptions<T, Partial<T>> = {}
+): UseVibeCreateResult<T> {
+  const client = useVibeClient();
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async (data: Partial<T>) => {
+      return client.collection<T>(collection).create(data);
+    },
+    onMutate: async (data) => {
+      let context: OptimisticContext | undefined;
+      if (options.optimistic) {
+        context = await snapshotQueries(queryClient, collection);
+        // Temporary id until the server assigns one
+        context.id = (data as { id?: string | number }).id ?? `temp-${++tempIdCounter}`;
+        prependToLists(queryClient, collection, { ...data, id: context.id } as T);
+      }
+      await options.onMutate?.(data);
+      return context;
+    },
+    onSuccess: (created, data, context) => {
+      if (context?.id !== undefined) {
+        replaceInLists<T>(queryClient, collection, context.id, () => created);
+      }
+      // Invalidate list queries for this collection
+      queryClient.invalidateQueries({ queryKey: vibeKeys.collection(collection) });
+      return options.onSuccess?.(created, data);
+    },
+    onError: (error, data, context) => {
+      restoreQueries(queryClient, context);
+      return options.onError?.(VibeError.fromError(error), data);
+    },
+    onSettled: (created, error, data) =>
+      options.onSettled?.(created, error ? VibeError.fromError(error) : null, data),
+  });
+
+  return {
+    mutate: mutation.mutate,
+    mutateAsync: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    isError: mutation.isError,
+    error: mutation.error ? VibeError.fromError(mutation.error) : null,
+    data: mutation.data,
+    reset: mutation.reset,
+  };
+}
+
+export interface UseVibeUpdateVariables<T> {
+  id: string | number;
+  data: Partial<T>;
+  /** Expected document version; the update fails with CONFLICT if it changed */
+  ifMatch?: string | number;
+}
+
+export interface UseVibeUpdateResult<T> {
+  mutate: (args: UseVibeUpdateVariables<T>) => void;
+  mutateAsync: (args: UseVibeUpdateVariables<T>) => Promise<T>;
+  isLoading: boolean;
+  isError: boolean;
+  error: VibeError | null;
+  /** The last update was rejected because the document changed on the server */
+  isConflict: boolean;
+  /** Server version reported with the conflict, if any */
+  currentVersion: string | undefined;
+  data: T | undefined;
+  reset: () => void;
+}
+
+/**
+ * Hook to update an existing document
+ *
+ * @param collection - Collection name
+ * @param options - Optimistic mode and lifecycle callbacks
+ * @returns Mutation result with mutate function
+ *
+ * @example
+ * ```typescript
+ * const { mutate, isLoading } = useVibeUpdate('products');
+ *
+ * const handleUpdate = () => {
+ *   mutate({ id: 123, data: { price: 12.99 } });
+ * };
+ *
+ * // Optimistic concurrency: reject the write if someone else changed the document
+ * const update = useVibeUpdate('articles');
+ * update.mutate({ id, data: draft, ifMatch: getDocumentVersion(article) });
+ * if (update.isConflict) {
+ *   // The detail query refetches the server copy; offer a merge
+ * }
+ * ```
+ */
+export function useVibeUpdate<T = unknown>(
+  collection: string,
+  options: UseVibeMutationOptions<T, UseVibeUpdateVariables<T>> = {}
+): UseVibeUpdateResult<T> {
+  const client = useVibeClient();
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async ({ id, data, ifMatch }: UseVibeUpdateVariables<T>) => {
+      return client.collection<T>(collection).update(id, data, { ifMatch });
+    },
+    onMutate: async (variables) => {
+      let context: OptimisticContext | undefined;
+      if (options.optimistic) {
+        const { id, data } = variables;
+        context = await snapshotQueries(queryClient, collection, id);
+        queryClient.setQueryData<T>(vibeKeys.detail(collection, id), (old) =>
+          old ? { ...old, ...data } : old
+        );
+        replaceInLists<T>(queryClient, collection, id, (doc) => ({ ...doc, ...data }));
+      }
+      await options.onMutate?.(variables);
+      return context;
+    },
+    onSuccess: (updated, variables, context) => {
+      if (context) {
+        queryClient.setQueryData(vibeKeys.detail(collection, variables.id), updated);
+        replaceInLists<T>(queryClient, collection, variables.id, () => updated);
+      }
+      // Invalidate both list and detail queries
+      queryClient.invalidateQueries({ queryKey: vibeKeys.collection(collection) });
+      queryClient.invalidateQueries({ queryKey: vibeKeys.detail(collection, variables.id) });
+      return options.onSuccess?.(updated, variables);
+    },
+    onError: (error, variables, context) => {
+      restoreQueries(queryClient, context);
+      // Fetch the server's copy so the UI can merge against it
+      if (error instanceof VibeError && error.code === 'CONFLICT') {
+        queryClient.invalidateQueries({ queryKey: vibeKeys.detail(collection, variables.id) });
+      }
+      return options.onError?.(VibeError.fromError(error), variables);
+    },
+    onSettled: (updated, error, variables) =>
+      options.onSettled?.(updated, error ? VibeError.fromError(error) : null, variables),
+  });
+
+  const error = mutation.error ? VibeError.fromError(mutation.error) : null;
+
+  return {
+    mutate: mutation.mutate,
+    mutateAsync: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    isError: mutation.isError,
+    error,
+    isConflict: error?.code === 'CONFLICT',
+    currentVersion: error?.code === 'CONFLICT' ? conflictVersion(error) : undefined,
+    data: mutation.data,
+    reset: mutation.reset,
+  };
+}
+
+/**
+ * Server version reported with a CONFLICT error
+ */
+function conflictVersion(error: VibeError): string | undefined {
+  const version = error.details?.currentVersion;
+  return version === undefined || version === null ? undefined : String(version);
+}
+
+export interface UseVibeDeleteResult {
+  mutate: (id: string | number) => void;
+  mutateAsync: (id: string | number) => Promise<void>;
+  isLoading: boolean;
+  isError: boolean;
+  error: VibeError | null;
+  reset: () => void;
+}
+
+/**
+ * Hook to delete a document
+ *
+ * @param collection - Collection name
+ * @param options - Optimistic mode and lifecycle callbacks
+ * @returns Mutation result with mutate function
+ *
+ * @example
+ * ```typescript
+ * const { mutate, isLoading } = useVibeDelete('products');
+ *
+ * const handleDelete = () => {
+ *   mutate(123);
+ * };
+ * ```
+ */
+export function useVibeDelete(
+  collection: string,
+  options: UseVibeMutationOptions<void, string | number> = {}
+): UseVibeDeleteResult {
+  const client = useVibeClient();
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async (id: string | number) => {
+      await client.collection(collection).delete(id);
+    },
+    onMutate: async (id) => {
+      let context: OptimisticContext | undefined;
+      if (options.optimistic) {
+        context = await snapshotQueries(queryClient, collection, id);
+        queryClient.removeQueries({ queryKey: vibeKeys.detail(collection, id) });
+        patchListQueries(queryClient, collection, hasId(id), (page) => ({
+          data: page.data.filter((doc) => !hasId(id)(doc)),
+          pagination: { ...page.pagination, total: Math.max(0, page.pagination.total - 1) },
+        }));
+      }
+      await options.onMutate?.(id);
+      return context;
+    },
+    onSuccess: (_, id) => {
+      // Invalidate list queries and remove detail from cache
+      queryClient.invalidateQueries({ queryKey: vibeKeys.collection(collection) });
+      queryClient.removeQueries({ queryKey: vibeKeys.detail(collection, id) });
+      return options.onSuccess?.(undefined, id);
+    },
+    onError: (error, id, context) => {
+      restoreQueries(queryClient, context);
+      return options.onError?.(VibeError.fromError(error), id);
+    },
+    onSettled: (_, error, id) =>
+      options.onSettled?.(undefined, error ? VibeError.fromError(error) : null, id),
+  });
+
+  return {
+    mutate: mutation.mutate,
+    mutateAsync: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    isError: mutation.isError,
+    error: mutation.error ? VibeError.fromError(mutation.error) : null,
+    reset: mutation.reset,
+  };
+}
+
+// =============================================================================
+// Upsert Hooks
+// =============================================================================
+
+export interface UseVibeUpsertResult<T, V> {
+  mutate: (variables: V) => void;
+  mutateAsync: (variables: V) => Promise<UpsertResult<T>>;
+  isLoading: boolean;
+  isError: boolean;
+  error: VibeError | null;
+  data: UpsertResult<T> | undefined;
+  reset: () => void;
+}
+
+/**
+ * Hook to update the document matching a filter, or create it
+ *
+ * @example
+ * ```typescript
+ * const { mutate } = useVibeUpsert('settings');
+ *
+ * mutate({ match: { user_id: userId, key: 'theme' }, data: { value: 'dark' } });
+ * ```
+ */
+export function useVibeUpsert<T = unknown>(
+  collection: string
+): UseVibeUpsertResult<T, { match: Record<string, unknown>; data: Partial<T> }> {
+  const client = useVibeClient();
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async ({ match, data }: { match: Record<string, unknown>; data: Partial<T> }) =>
+      client.collection<T>(collection).upsert(match, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: vibeKeys.collection(collection) });
+    },
+  });
+
+  return {
+    mutate: mutation.mutate,
+    mutateAsync: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    isError: mutation.isError,
+    error: mutation.error ? VibeError.fromError(mutation.error) : null,
+    data: mutation.data,
+    reset: mutation.reset,
+  };
+}
+
+/**
+ * Hook to return the document matching a filter, creating it if none exists
+ *
+ * @example
+ * ```typescript
+ * const { mutateAsync } = useVibeFindOrCreate('carts');
+ *
+ * const { data: cart } = await mutateAsync({ filter: { user_id: userId }, defaults: { items: [] } });
+ * ```
+ */
+export function useVibeFindOrCreate<T = unknown>(
+  collection: string
+): UseVibeUpsertResult<T, { filter: Record<string, unknown>; defaults?: Partial<T> }> {
+  const client = useVibeClient();
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async ({
+      filter,
+      defaults,
+    }: {
+      filter: Record<string, unknown>;
+      defaults?: Partial<T>;
+    }) => client.collection<T>(collection).findOrCreate(filter, defaults),
+    onSuccess: (result) => {
+      // Only a new document changes what the collection's queries return
+      if (result.created) {
+        queryClient.invalidateQueries({ queryKey: vibeKeys.collection(collection) });
+      }
+    },
+  });
+
+  return {
+    mutate: mutation.mutate,
+    mutateAsync: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    isError: mutation.isError,
+    error: mutation.error ? VibeError.fromError(mutation.error) : null,
+    data: mutation.data,
+    reset: mutation.reset,
+  };
+}
+
+// =============================================================================
+// Bulk Mutation Hooks
+// =============================================================================
+
+export interface UseVibeBulkResult<V, R> {
+  mutate: (variables: V) => void;
+  mutateAsync: (variables: V) => Promise<BulkResult<R>>;
+  isLoading: boolean;
+  isError: boolean;
+  error: VibeError | null;
+  data: BulkResult<R> | undefined;
+  reset: () => void;
+}
+
+/**
+ * Hook to create many documents in a collection
+ *
+ * Invalidates the collection's queries once per batch.
+ *
+ * @example
+ * ```typescript
+ * const { mutateAsync } = useVibeCreateMany('products');
+ *
+ * const { succeeded, failed } = await mutateAsync({ items: rows, options: { concurrency: 3 } });
+ * ```
+ */
+export function useVibeCreateMany<T = unknown>(
+  collection: string
+): UseVibeBulkResult<{ items: Partial<T>[]; options?: BulkOptions }, T> {
+  const client = useVibeClient();
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async ({ items, options }: { items: Partial<T>[]; options?: BulkOptions }) =>
+      client.collection<T>(collection).createMany(items, options),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: vibeKeys.collection(collection) });
+    },
+  });
+
+  return {
+    mutate: mutation.mutate,
+    mutateAsync: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    isError: mutation.isError,
+    error: mutation.error ? VibeError.fromError(mutation.error) : null,
+    data: mutation.data,
+    reset: mutation.reset,
+  };
+}
+
+/**
+ * Hook to apply the same update to many documents
+ *
+ * @example
+ * ```typescript
+ * const { mutate } = useVibeUpdateMany('orders');
+ *
+ * mutate({ target: { filter: { status: 'pending' } }, data: { status: 'cancelled' } });
+ * ```
+ */
+export function useVibeUpdateMany<T = unknown>(
+  collection: string
+): UseVibeBulkResult<{ target: BulkTarget; data: Partial<T>; options?: BulkOptions }, T> {
+  const client = useVibeClient();
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async ({
+      target,
+      data,
+      options,
+    }: {
+      target: BulkTarget;
+      data: Partial<T>;
+      options?: BulkOptions;
+    }) => client.collection<T>(collection).updateMany(target, data, options),
+    onSuccess: () => {
+      // Detail queries live under the collection key, so one invalidation covers both
+      queryClient.invalidateQueries({ queryKey: vibeKeys.collection(collection) });
+    },
+  });
+
+  return {
+    mutate: mutation.mutate,
+    mutateAsync: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    isError: mutation.isError,
+    error: mutation.error ? VibeError.fromError(mutation.error) : null,
+    data: mutation.data,
+    reset: mutation.reset,
+  };
+}
+
+/**
+ * Hook to delete many documents
+ *
+ * @example
+ * ```typescript
+ * const { mutate } = useVibeDeleteMany('products');
+ *
+ * mutate({ target: { ids: selectedIds } });
+ * ```
+ */
+export function useVibeDeleteMany(
+  collection: string
+): UseVibeBulkResult<{ target: BulkTarget; options?: BulkOptions }, string | number> {
+  const client = useVibeClient();
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async ({ target, options }: { target: BulkTarget; options?: BulkOptions }) =>
+      client.collection(collection).deleteMany(target, options),
+    onSuccess: (result) => {
+      for (const { data: id } of result.succeeded) {
+        queryClient.removeQueries({ queryKey: vibeKeys.detail(collection, id) });
+      }
+      queryClient.invalidateQueries({ queryKey: vibeKeys.collection(collection) });
+    },
+  });
+
+  return {
+    mutate: mutation.mutate,
+    mutateAsync: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    isError: mutation.isError,
+    error: mutation.error ? VibeError.fromError(mutation.error) : null,
+    data: mutation.data,
+    reset: mutation.reset,
+  };
+}
+
+// =============================================================================
+// Admin Hooks
+// =============================================================================
+
+/**
+ * Hook to fetch roles list
+ */
+export function useVibeRoles(options: ListOptions = {}): UseVibeCollectionResult<Role> {
+  const client = useVibeClient();
+
+  const query = useQuery({
+    queryKey: vibeKeys.roles(),
+    queryFn: async () => client.admin.roles.list(options),
+  });
+
+  return {
+    data: query.data?.data,
+    pagination: query.data?.pagination,
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    isError: query.isError,
+    error: query.error ? VibeError.fromError(query.error) : null,
+    refetch: () => query.refetch(),
+  };
+}
+
+/**
+ * Hook to fetch a single role
+ */
+export function useVibeRole(id: number): UseVibeDocumentResult<Role> {
+  const client = useVibeClient();
+
+  const query = useQuery({
+    queryKey: vibeKeys.role(id),
+    queryFn: async () => client.admin.roles.get(id),
+  });
+
+  return {
+    data: query.data ?? undefined,
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    isError: query.isError,
+    error: query.error ? VibeError.fromError(query.error) : null,
+    refetch: () => query.refetch(),
+  };
+}
+
+/**
+ * Hook to create a role
+ */
+export function useVibeCreateRole(): UseVibeCreateResult<Role> {
+  const client = useVibeClient();
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async (data: CreateRole) => client.admin.roles.create(data),
+    onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: vibeKeys.roles() });
     },
   });
@@ -462,7 +1466,7 @@ export function useVibeCreateRole(): UseVibeCreateResult<Role> {
  * Hook to update a role
  */
 export function useVibeUpdateRole(): UseVibeUpdateResult<Role> {
-  const client = getClient();
+  const client = useVibeClient();
   const queryClient = useQueryClient();
 
   const mutation = useMutation({
@@ -474,15 +1478,16 @@ export function useVibeUpdateRole(): UseVibeUpdateResult<Role> {
     },
   });
 
+  const error = mutation.error ? VibeError.fromError(mutation.error) : null;
+
   return {
-    mutate: mutation.mutate as (args: { id: string | number; data: Partial<Role> }) => void,
-    mutateAsync: mutation.mutateAsync as (args: {
-      id: string | number;
-      data: Partial<Role>;
-    }) => Promise<Role>,
+    mutate: mutation.mutate as (args: UseVibeUpdateVariables<Role>) => void,
+    mutateAsync: mutation.mutateAsync as (args: UseVibeUpdateVariables<Role>) => Promise<Role>,
     isLoading: mutation.isPending,
     isError: mutation.isError,
-    error: mutation.error ? VibeError.fromError(mutation.error) : null,
+    error,
+    isConflict: error?.code === 'CONFLICT',
+    currentVersion: error?.code === 'CONFLICT' ? conflictVersion(error) : undefined,
     data: mutation.data,
     reset: mutation.reset,
   };
@@ -492,7 +1497,7 @@ export function useVibeUpdateRole(): UseVibeUpdateResult<Role> {
  * Hook to delete a role
  */
 export function useVibeDeleteRole(): UseVibeDeleteResult {
-  const client = getClient();
+  const client = useVibeClient();
   const queryClient = useQueryClient();
 
   const mutation = useMutation({
@@ -516,7 +1521,7 @@ export function useVibeDeleteRole(): UseVibeDeleteResult {
  * Hook to fetch users list
  */
 export function useVibeUsers(options: ListOptions = {}): UseVibeCollectionResult<User> {
-  const client = getClient();
+  const client = useVibeClient();
 
   const query = useQuery({
     queryKey: vibeKeys.users(),
@@ -538,7 +1543,7 @@ export function useVibeUsers(options: ListOptions = {}): UseVibeCollectionResult
  * Hook to fetch a single user
  */
 export function useVibeUser(id: string): UseVibeDocumentResult<User> {
-  const client = getClient();
+  const client = useVibeClient();
 
   const query = useQuery({
     queryKey: vibeKeys.user(id),
@@ -559,17 +1564,11 @@ export function useVibeUser(id: string): UseVibeDocumentResult<User> {
  * Hook to fetch a user's roles
  */
 export function useVibeUserRoles(userId: string): UseVibeCollectionResult<Role> {
-  const client = getClient();
+  const client = useVibeClient();
 
   const query = useQuery({
     queryKey: vibeKeys.userRoles(userId),
-    queryFn: async () => {
-      const roles = await client.admin.users.getRoles(userId);
-      return {
-        data: roles,
-        pagination: { total: roles.length, limit: roles.length, offset: 0, hasMore: false },
-      };
-    },
+    queryFn: () => fetchUserRoles(client, userId),
   });
 
   return {
@@ -583,11 +1582,22 @@ export function useVibeUserRoles(userId: string): UseVibeCollectionResult<Role>
   };
 }
 
+/**
+ * A user's roles as a single-page list, for the user-roles query
+ */
+async function fetchUserRoles(client: VibeClient, userId: string): Promise<ListResult<Role>> {
+  const roles = await client.admin.users.getRoles(userId);
+  return {
+    data: roles,
+    pagination: { total: roles.length, limit: roles.length, offset: 0, hasMore: false },
+  };
+}
+
 /**
  * Hook to fetch tenant configuration
  */
 export function useVibeTenantConfig(): UseVibeDocumentResult<TenantConfig> {
-  const client = getClient();
+  const client = useVibeClient();
 
   const query = useQuery({
     queryKey: vibeKeys.tenant(),
@@ -604,14 +1614,557 @@ export function useVibeTenantConfig(): UseVibeDocumentResult<TenantConfig> {
   };
 }
 
+// =============================================================================
+// Suspense Hooks
+// =============================================================================
+
+export interface UseVibeSuspenseCollectionResult<T> {
+  data: T[];
+  pagination: Pagination;
+  isFetching: boolean;
+  refetch: () => void;
+}
+
+export interface UseVibeSuspenseDocumentResult<T> {
+  data: T;
+  isFetching: boolean;
+  refetch: () => void;
+}
+
+/**
+ * Hook to fetch a list, suspending until the first page arrives
+ *
+ * Shares its cache entry with `useVibeCollection`, so prefetched or hydrated
+ * lists render without suspending. Failures throw a `VibeError` to the
+ * nearest error boundary (see `VibeErrorBoundary`).
+ *
+ * @param collection - Collection name
+ * @param options - List options (limit, offset, orderBy, filter)
+ *
+ * @example
+ * ```typescript
+ * function Products() {
+ *   const { data } = useVibeSuspenseCollection<Product>('products', { limit: 20 });
+ *   return <ul>{data.map((p) => <li key={p.id}>{p.name}</li>)}</ul>;
+ * }
+ *
+ * <VibeErrorBoundary fallback={({ error }) => <p>{error.message}</p>}>
+ *   <Suspense fallback={<Spinner />}>
+ *     <Products />
+ *   </Suspense>
+ * </VibeErrorBoundary>
+ * ```
+ */
+export function useVibeSuspenseCollection<T = unknown>(
+  collection: string,
+  options: ListOptions = {}
+): UseVibeSuspenseCollectionResult<T> {
+  const client = useVibeClient();
+
+  const query = useSuspenseQuery({
+    queryKey: vibeKeys.list(collection, options),
+    queryFn: rejectWithVibeError(() => client.collection<T>(collection).list(options)),
+  });
+
+  return {
+    data: query.data.data,
+    pagination: query.data.pagination,
+    isFetching: query.isFetching,
+    refetch: () => query.refetch(),
+  };
+}
+
+/**
+ * Hook to fetch a document, suspending until it arrives
+ *
+ * A missing document throws a NOT_FOUND `VibeError`, so `data` is always set.
+ *
+ * @param collection - Collection name
+ * @param id - Document ID
+ *
+ * @example
+ * ```typescript
+ * const { data: product } = useVibeSuspenseDocument<Product>('products', params.id);
+ * ```
+ */
+export function useVibeSuspenseDocument<T = unknown>(
+  collection: string,
+  id: string | number
+): UseVibeSuspenseDocumentResult<T> {
+  const client = useVibeClient();
+
+  const query = useSuspenseQuery({
+    queryKey: vibeKeys.detail(collection, id),
+    queryFn: requireDocument(() => client.collection<T>(collection).get(id), collection, id),
+  });
+
+  // A null cached by the non-suspense hook on the same key
+  if (query.data === null) {
+    throw notFoundError(collection, id);
+  }
+
+  return {
+    data: query.data,
+    isFetching: query.isFetching,
+    refetch: () => query.refetch(),
+  };
+}
+
+/**
+ * Suspense variant of `useVibeRoles`
+ */
+export function useVibeSuspenseRoles(
+  options: ListOptions = {}
+): UseVibeSuspenseCollectionResult<Role> {
+  const client = useVibeClient();
+
+  const query = useSuspenseQuery({
+    queryKey: vibeKeys.roles(),
+    queryFn: rejectWithVibeError(() => client.admin.roles.list(options)),
+  });
+
+  return {
+    data: query.data.data,
+    pagination: query.data.pagination,
+    isFetching: query.isFetching,
+    refetch: () => query.refetch(),
+  };
+}
+
+/**
+ * Suspense variant of `useVibeRole` (throws NOT_FOUND for a missing role)
+ */
+export function useVibeSuspenseRole(id: number): UseVibeSuspenseDocumentResult<Role> {
+  const client = useVibeClient();
+
+  const query = useSuspenseQuery({
+    queryKey: vibeKeys.role(id),
+    queryFn: requireDocument(() => client.admin.roles.get(id), 'roles', id),
+  });
+
+  // A null cached by the non-suspense hook on the same key
+  if (query.data === null) {
+    throw notFoundError('roles', id);
+  }
+
+  return {
+    data: query.data,
+    isFetching: query.isFetching,
+    refetch: () => query.refetch(),
+  };
+}
+
+/**
+ * Suspense variant of `useVibeUsers`
+ */
+export function useVibeSuspenseUsers(
+  options: ListOptions = {}
+): UseVibeSuspenseCollectionResult<User> {
+  const client = useVibeClient();
+
+  const query = useSuspenseQuery({
+    queryKey: vibeKeys.users(),
+    queryFn: rejectWithVibeError(() => client.admin.users.list(options)),
+  });
+
+  return {
+    data: query.data.data,
+    pagination: query.data.pagination,
+    isFetching: query.isFetching,
+    refetch: () => query.refetch(),
+  };
+}
+
+/**
+ * Suspense variant of `useVibeUser` (throws NOT_FOUND for a missing user)
+ */
+export function useVibeSuspenseUser(id: string): UseVibeSuspenseDocumentResult<User> {
+  const client = useVibeClient();
+
+  const query = useSuspenseQuery({
+    queryKey: vibeKeys.user(id),
+    queryFn: requireDocument(() => client.admin.users.get(id), 'users', id),
+  });
+
+  // A null cached by the non-suspense hook on the same key
+  if (query.data === null) {
+    throw notFoundError('users', id);
+  }
+
+  return {
+    data: query.data,
+    isFetching: query.isFetching,
+    refetch: () => query.refetch(),
+  };
+}
+
+/**
+ * Suspense variant of `useVibeUserRoles`
+ */
+export function useVibeSuspenseUserRoles(userId: string): UseVibeSuspenseCollectionResult<Role> {
+  const client = useVibeClient();
+
+  const query = useSuspenseQuery({
+    queryKey: vibeKeys.userRoles(userId),
+    queryFn: rejectWithVibeError(() => fetchUserRoles(client, userId)),
+  });
+
+  return {
+    data: query.data.data,
+    pagination: query.data.pagination,
+    isFetching: query.isFetching,
+    refetch: () => query.refetch(),
+  };
+}
+
+/**
+ * Suspense variant of `useVibeTenantConfig`
+ */
+export function useVibeSuspenseTenantConfig(): UseVibeSuspenseDocumentResult<TenantConfig> {
+  const client = useVibeClient();
+
+  const query = useSuspenseQuery({
+    queryKey: vibeKeys.tenant(),
+    queryFn: rejectWithVibeError(() => client.admin.tenant.getConfig()),
+  });
+
+  return {
+    data: query.data,
+    isFetching: query.isFetching,
+    refetch: () => query.refetch(),
+  };
+}
+
+/**
+ * Query function that only rejects with `VibeError`, so error boundaries can
+ * switch on `error.code`
+ */
+function rejectWithVibeError<T>(queryFn: () => Promise<T>): () => Promise<T> {
+  return () =>
+    queryFn().catch((error: unknown) => {
+      throw VibeError.fromError(error);
+    });
+}
+
+/**
+ * Query function for one document that rejects with NOT_FOUND instead of
+ * resolving to null, so the query is in an error state and resetting the
+ * error boundary fetches it again
+ */
+function requireDocument<T>(
+  fetchDocument: () => Promise<T | null>,
+  collection: string,
+  id: string | number
+): () => Promise<T> {
+  return rejectWithVibeError(async () => {
+    const doc = await fetchDocument();
+    if (doc === null) {
+      throw notFoundError(collection, id);
+    }
+    return doc;
+  });
+}
+
+// =============================================================================
+// Error Boundary
+// =============================================================================
+
+export interface VibeErrorFallbackProps {
+  error: VibeError;
+  /** Clear the error and render the children again, retrying failed queries */
+  reset: () => void;
+}
+
+export type VibeErrorFallback = ReactNode | ((props: VibeErrorFallbackProps) => ReactNode);
+
+export interface VibeErrorBoundaryProps {
+  /** Fallbacks by error code, e.g. a sign-in prompt for UNAUTHORIZED */
+  fallbacks?: Partial<Record<VibeErrorCode, VibeErrorFallback>>;
+
+  /** Fallback for codes without an entry in `fallbacks` */
+  fallback?: VibeErrorFallback;
+
+  /** Called once per caught VibeError, e.g. for logging */
+  onError?: (error: VibeError) => void;
+
+  /** Clear the error when any of these values change (e.g. the pathname) */
+  resetKeys?: readonly unknown[];
+
+  children?: ReactNode;
+}
+
+interface VibeErrorBoundaryState {
+  error: unknown;
+}
+
+interface ErrorBoundaryImplProps extends VibeErrorBoundaryProps {
+  onReset: () => void;
+}
+
+class ErrorBoundaryImpl extends Component<ErrorBoundaryImplProps, VibeErrorBoundaryState> {
+  state: VibeErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: unknown): VibeErrorBoundaryState {
+    return { error };
+  }
+
+  componentDidCatch(error: unknown): void {
+    if (error instanceof VibeError) {
+      this.props.onError?.(error);
+    }
+  }
+
+  componentDidUpdate(
+    previous: ErrorBoundaryImplProps,
+    previousState: VibeErrorBoundaryState
+  ): void {
+    // Only errors shown since an earlier render; a fresh catch keeps its fallback
+    if (previousState.error === null || this.state.error === null) return;
+
+    const keys = this.props.resetKeys ?? [];
+    const previousKeys = previous.resetKeys ?? [];
+    const changed =
+      keys.length !== previousKeys.length ||
+      keys.some((key, i) => !Object.is(key, previousKeys[i]));
+    if (changed) {
+      this.reset();
+    }
+  }
+
+  reset = (): void => {
+    this.props.onReset();
+    this.setState({ error: null });
+  };
+
+  render(): ReactNode {
+    const { error } = this.state;
+    if (error === null) {
+      return this.props.children;
+    }
+
+    const { fallbacks, fallback: defaultFallback } = this.props;
+    const fallback =
+      error instanceof VibeError ? (fallbacks?.[error.code] ?? defaultFallback) : undefined;
+    if (fallback === undefined) {
+      // Not ours to handle: pass it on to the next boundary
+      throw error;
+    }
+
+    return typeof fallback === 'function'
+      ? fallback({ error: error as VibeError, reset: this.reset })
+      : fallback;
+  }
+}
+
+/**
+ * Render fallbacks for `VibeError`s thrown below it, chosen by error code
+ *
+ * Catches errors from the suspense hooks (and anything else throwing a
+ * `VibeError`). Codes without a fallback, and errors that aren't VibeErrors,
+ * pass through to the next boundary, so boundaries can be nested. Resetting
+ * retries the failed queries.
+ *
+ * @example
+ * ```typescript
+ * <VibeErrorBoundary
+ *   fallbacks={{
+ *     UNAUTHORIZED: <SignInPrompt />,
+ *     NOT_FOUND: <NotFound />,
+ *   }}
+ *   fallback={({ error, reset }) => (
+ *     <div>
+ *       <p>{error.message}</p>
+ *       <button onClick={reset}>Try again</button>
+ *     </div>
+ *   )}
+ *   resetKeys={[pathname]}
+ * >
+ *   <Suspense fallback={<Spinner />}>
+ *     <ProductDetail id={id} />
+ *   </Suspense>
+ * </VibeErrorBoundary>
+ * ```
+ */
+export function VibeErrorBoundary(props: VibeErrorBoundaryProps) {
+  return createElement(QueryErrorResetBoundary, {
+    children: ({ reset }) => createElement(ErrorBoundaryImpl, { ...props, onReset: reset }),
+  });
+}
+
+// =============================================================================
+// Authorization
+// =============================================================================
+
+interface VibeAuthState {
+  roles: string[];
+  user: PolicyUser | null;
+  policies: VibePolicies | undefined;
+}
+
+const VibeAuthContext = createContext<VibeAuthState | null>(null);
+
+export interface VibeAuthProviderProps {
+  /** Roles of the current user. Default: `user.roles` */
+  roles?: string[] | null;
+
+  /** Current user, used by policy row filters in `useCan` */
+  user?: PolicyUser | null;
+
+  /** Access policies for `useCan`. Default: the `policies` of the client config */
+  policies?: VibePolicies;
+
+  children?: ReactNode;
+}
+
+/**
+ * Provide the current user's roles to `RequireRole`, `RequireRoleLevel`,
+ * `useCan` and `useVibeCurrentRoles`
+ *
+ * Without a provider the user has no roles, so gated content stays hidden.
+ *
+ * @example
+ * ```typescript
+ * const { data: session } = useSession();
+ *
+ * return (
+ *   <VibeAuthProvider user={session?.user} policies={policies}>
+ *     {children}
+ *   </VibeAuthProvider>
+ * );
+ * ```
+ */
+export function VibeAuthProvider({
+  roles,
+  user = null,
+  policies,
+  children,
+}: VibeAuthProviderProps) {
+  const resolvedRoles = roles ?? user?.roles;
+  const value = useMemo<VibeAuthState>(
+    () => ({ roles: resolvedRoles ?? [], user, policies }),
+    [resolvedRoles, user, policies]
+  );
+  return createElement(VibeAuthContext.Provider, { value }, children);
+}
+
+/**
+ * Roles of the current user from the nearest `VibeAuthProvider`
+ *
+ * (`useVibeRoles` lists the tenant's role definitions through the admin API.)
+ */
+export function useVibeCurrentRoles(): string[] {
+  return useContext(VibeAuthContext)?.roles ?? [];
+}
+
+/**
+ * Whether the current user may perform an operation on a collection
+ *
+ * Evaluates the collection's access policy with the same rules the client
+ * and route handler enforce. Collections without a policy are allowed. Pass
+ * a document to also check it against the policy's row filter.
+ *
+ * @example
+ * ```typescript
+ * const canEdit = useCan('products', 'write', product);
+ *
+ * return canEdit ? <EditButton product={product} /> : null;
+ * ```
+ */
+export function useCan(
+  collection: string,
+  operation: PolicyOperation,
+  doc?: Record<string, unknown>
+): boolean {
+  const auth = useContext(VibeAuthContext);
+  const provided = useContext(VibeClientContext);
+  const policies = auth?.policies ?? (provided ? provided.config : clientConfig)?.policies;
+  const policy = policies?.[collection];
+  if (!policy) return true;
+
+  if (!satisfiesRoles(auth?.roles ?? [], policy[operation])) return false;
+  if (!doc || !policy.rowFilter) return true;
+  return !!auth?.user && matchesFilter(doc, policy.rowFilter(auth.user));
+}
+
+export interface RequireRoleProps {
+  /** Render children if the user has any of these roles */
+  anyOf?: readonly string[];
+
+  /** Render children only if the user has all of these roles */
+  allOf?: readonly string[];
+
+  /** Rendered instead of children when the check fails. Default: nothing */
+  fallback?: ReactNode;
+
+  children?: ReactNode;
+}
+
+/**
+ * Render children only for users with the required roles
+ *
+ * @example
+ * ```typescript
+ * <RequireRole anyOf={ADMIN_ROLES} fallback={<p>Admins only</p>}>
+ *   <AdminPanel />
+ * </RequireRole>
+ * ```
+ */
+export function RequireRole({ anyOf, allOf, fallback = null, children }: RequireRoleProps) {
+  const roles = useVibeCurrentRoles();
+  const allowed =
+    (!anyOf || hasAnyRole(roles, anyOf)) && (!allOf || hasAllRoles(roles, allOf));
+  return createElement(Fragment, null, allowed ? children : fallback);
+}
+
+export interface RequireRoleLevelProps {
+  /** Minimum `ROLE_HIERARCHY` level */
+  min: number;
+
+  /** Rendered instead of children when the check fails. Default: nothing */
+  fallback?: ReactNode;
+
+  children?: ReactNode;
+}
+
+/**
+ * Render children only for users at or above a role level
+ *
+ * @example
+ * ```typescript
+ * // vibe_client_admin and above
+ * <RequireRoleLevel min={2}>
+ *   <TenantSettings />
+ * </RequireRoleLevel>
+ * ```
+ */
+export function RequireRoleLevel({ min, fallback = null, children }: RequireRoleLevelProps) {
+  const roles = useVibeCurrentRoles();
+  return createElement(Fragment, null, meetsRoleLevel(roles, min) ? children : fallback);
+}
+
 // =============================================================================
 // Re-exports for convenience
 // =============================================================================
 
 export { VibeError } from './error';
+export { getDocumentVersion } from './version';
+export type { PolicyOperation } from './policy';
 export type {
+  AggregateOptions,
+  AggregateRow,
+  BulkOptions,
+  BulkResult,
+  BulkTarget,
+  ChangeEvent,
   ListOptions,
   Pagination,
+  PolicyUser,
+  SubscribeOptions,
+  UpsertResult,
+  UseVibeInfiniteCollectionOptions,
+  VibeErrorCode,
+  VibePolicies,
+  WriteOptions,
   Role,
   CreateRole,
   UpdateRole,
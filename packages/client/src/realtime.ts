@@ -0,0 +1,219 @@
+/**
+ * Realtime Subscriptions
+ *
+ * Reads server-sent event streams of collection changes. Streams reconnect
+ * with backoff and resume from the last received event via `Last-Event-ID`.
+ */
+
+import type { RetryOptions, SubscribeOptions, VibeSubscription } from './types';
+import { VibeError } from './error';
+import { backoffDelay } from './http';
+
+export interface ServerSentEvent {
+  /** Event id, used as the resume token */
+  id?: string;
+  /** Event name. Default: 'message' */
+  event: string;
+  data: string;
+  /** Reconnect delay requested by the server, in milliseconds */
+  retry?: number;
+}
+
+export interface ChangeStream {
+  /** Open the stream, resuming after `lastEventId` when set */
+  connect(lastEventId: string | undefined, signal: AbortSignal): Promise<Response>;
+  /** Handle one event */
+  onEvent(event: ServerSentEvent): void;
+}
+
+/**
+ * Default reconnect policy: retry forever, backing off up to 30 seconds
+ */
+const DEFAULT_RECONNECT: Required<RetryOptions> = {
+  maxAttempts: Infinity,
+  baseDelay: 1000,
+  maxDelay: 30000,
+  respectRetryAfter: true,
+  retryNonIdempotent: false,
+};
+
+/**
+ * Keep a stream open until unsubscribed
+ *
+ * Failed connections are retried while the error is retryable and fewer than
+ * `maxAttempts` consecutive attempts failed. A stream that drops after
+ * connecting is always reopened. Handler errors are reported to `onError`
+ * without closing the stream; errors thrown by `onError` or `onOpen` are
+ * logged and ignored.
+ */
+export function openSubscription(source: ChangeStream, options: SubscribeOptions): VibeSubscription {
+  const controller = new AbortController();
+  const { signal } = controller;
+  const policy = options.reconnect === false ? null : { ...DEFAULT_RECONNECT, ...options.reconnect };
+  let lastEventId = options.resumeToken;
+
+  // A throwing callback must not end the reconnect loop
+  const notify = (callback: () => void) => {
+    try {
+      callback();
+    } catch (error) {
+      console.warn('[vibe] Subscription callback threw:', error);
+    }
+  };
+
+  const run = async () => {
+    let failures = 0;
+    let serverDelay: number | undefined;
+
+    while (!signal.aborted) {
+      let response: Response;
+
+      try {
+        response = await source.connect(lastEventId, signal);
+        if (!response.body) {
+          throw new VibeError({
+            code: 'SERVER_ERROR',
+            message: 'Subscription response has no body',
+            status: response.status,
+          });
+        }
+      } catch (error) {
+        if (signal.aborted) return;
+
+        const vibeError = VibeError.fromError(error);
+        notify(() => options.onError?.(vibeError));
+        failures++;
+
+        if (!policy || !vibeError.isRetryable() || failures >= policy.maxAttempts) return;
+        await wait(serverDelay ?? backoffDelay(failures, policy), signal);
+        continue;
+      }
+
+      failures = 0;
+      notify(() => options.onOpen?.());
+
+      try {
+        for await (const event of readEventStream(response.body, signal)) {
+          if (event.retry !== undefined) {
+            serverDelay = event.retry;
+          }
+          if (event.id !== undefined) {
+            lastEventId = event.id;
+          }
+          try {
+            source.onEvent(event);
+          } catch (error) {
+            notify(() => options.onError?.(VibeError.fromError(error)));
+          }
+        }
+      } catch (error) {
+        if (signal.aborted) return;
+        const interrupted = new VibeError({
+          code: 'NETWORK_ERROR',
+          message: 'Subscription stream interrupted',
+          details: { originalError: error instanceof Error ? error.message : String(error) },
+        });
+        notify(() => options.onError?.(interrupted));
+      }
+
+      if (signal.aborted || !policy) return;
+      await wait(serverDelay ?? backoffDelay(1, policy), signal);
+    }
+  };
+
+  void run();
+
+  return {
+    unsubscribe: () => controller.abort(),
+    get lastEventId() {
+      return lastEventId;
+    },
+  };
+}
+
+/**
+ * Parse a `text/event-stream` body into events
+ *
+ * Comment lines (heartbeats) are skipped. Aborting `signal` cancels the body.
+ */
+export async function* readEventStream(
+  body: ReadableStream<Uint8Array>,
+  signal: AbortSignal
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const onAbort = () => {
+    reader.cancel().catch(() => undefined);
+  };
+  signal.addEventListener('abort', onAbort, { once: true });
+
+  let buffer = '';
+  let pending: { id?: string; event?: string; data: string[]; retry?: number } = { data: [] };
+
+  try {
+    while (!signal.aborted) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+
+      // A trailing \r may be the first half of \r\n, so wait for more input
+      let match: RegExpExecArray | null;
+      while ((match = /\r\n|\n|\r(?!$)/.exec(buffer))) {
+        const line = buffer.slice(0, match.index);
+        buffer = buffer.slice(match.index + match[0].length);
+
+        if (line === '') {
+          if (pending.data.length > 0) {
+            yield {
+              id: pending.id,
+              event: pending.event ?? 'message',
+              data: pending.data.join('\n'),
+              retry: pending.retry,
+            };
+          }
+          pending = { data: [] };
+          continue;
+        }
+
+        if (line.startsWith(':')) continue;
+
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+        switch (field) {
+          case 'data':
+            pending.data.push(value);
+            break;
+          case 'event':
+            pending.event = value;
+            break;
+          case 'id':
+            pending.id = value;
+            break;
+          case 'retry':
+            if (/^\d+$/.test(value)) pending.retry = Number(value);
+            break;
+        }
+      }
+    }
+  } finally {
+    signal.removeEventListener('abort', onAbort);
+    reader.cancel().catch(() => undefined);
+  }
+}
+
+/**
+ * Sleep, resolving early when the signal aborts
+ */
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener('abort', done, { once: true });
+  });
+}
@@ -0,0 +1,151 @@
+/**
+ * @vibe/client/server
+ *
+ * Prefetch Vibe queries in React Server Components and hand the cache to the
+ * client hooks, so pages fetch once on the server instead of again in the
+ * browser. Kept free of hooks and contexts so server components can import it.
+ *
+ * @example
+ * ```typescript
+ * // app/products/page.tsx (server component)
+ * import { QueryClient } from '@tanstack/react-query';
+ * import { prefetchVibeCollection, VibeHydrate } from '@vibe/client/server';
+ *
+ * export default async function ProductsPage() {
+ *   const queryClient = new QueryClient();
+ *   await prefetchVibeCollection(queryClient, 'products', { limit: 20 });
+ *
+ *   return (
+ *     <VibeHydrate queryClient={queryClient}>
+ *       <ProductList />
+ *     </VibeHydrate>
+ *   );
+ * }
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { HydrationBoundary, dehydrate, type QueryClient } from '@tanstack/react-query';
+import { createElement, type ReactNode } from 'react';
+import { getVibeClient } from './client';
+import { notFoundError } from './error';
+import { vibeKeys } from './keys';
+import type { ListOptions, VibeClient } from './types';
+
+export interface PrefetchVibeOptions {
+  /**
+   * Client to fetch with. Default: `getVibeClient()` (configured from
+   * environment variables). Pass a client carrying the user's access token
+   * for data the user must be signed in to see.
+   */
+  client?: VibeClient;
+}
+
+export interface PrefetchVibeCollectionOptions extends ListOptions, PrefetchVibeOptions {
+  /** Accepted so hook options can be shared; prefetching ignores it */
+  enabled?: boolean;
+}
+
+/**
+ * Prefetch a list into the query cache under the key `useVibeCollection`
+ * reads, so the hook renders the data without fetching
+ *
+ * Pass the same list options the component passes to the hook. Failed
+ * requests are not thrown; the hook retries them in the browser.
+ *
+ * @param queryClient - Query cache to fill (create one per request)
+ * @param collection - Collection name
+ * @param options - List options, as given to `useVibeCollection`
+ *
+ * @example
+ * ```typescript
+ * await prefetchVibeCollection(queryClient, 'products', {
+ *   limit: 20,
+ *   orderBy: 'created_at',
+ *   orderDir: 'desc',
+ *   client: vibeForUser(session),
+ * });
+ * ```
+ */
+export async function prefetchVibeCollection<T = unknown>(
+  queryClient: QueryClient,
+  collection: string,
+  options: PrefetchVibeCollectionOptions = {}
+): Promise<void> {
+  // Strip what the hook doesn't put in its key
+  const { client = getVibeClient(), enabled: _enabled, ...listOptions } = options;
+
+  await queryClient.prefetchQuery({
+    queryKey: vibeKeys.list(collection, listOptions),
+    queryFn: async () => client.collection<T>(collection).list(listOptions),
+  });
+}
+
+/**
+ * Prefetch a document into the query cache under the key `useVibeDocument`
+ * reads
+ *
+ * Missing documents are not cached, so the hooks fetch them again and report
+ * them as usual (null, or NOT_FOUND from the suspense hooks).
+ *
+ * @param queryClient - Query cache to fill (create one per request)
+ * @param collection - Collection name
+ * @param id - Document ID
+ *
+ * @example
+ * ```typescript
+ * await prefetchVibeDocument(queryClient, 'products', params.id);
+ * ```
+ */
+export async function prefetchVibeDocument<T = unknown>(
+  queryClient: QueryClient,
+  collection: string,
+  id: string | number,
+  options: PrefetchVibeOptions = {}
+): Promise<void> {
+  const { client = getVibeClient() } = options;
+
+  await queryClient.prefetchQuery({
+    queryKey: vibeKeys.detail(collection, id),
+    queryFn: async () => {
+      const doc = await client.collection<T>(collection).get(id);
+      if (doc === null) {
+        // Leave missing documents out of the cache; the hooks report them
+        throw notFoundError(collection, id);
+      }
+      return doc;
+    },
+  });
+}
+
+export interface VibeHydrateProps {
+  /** Query cache filled by the prefetch helpers */
+  queryClient: QueryClient;
+  children?: ReactNode;
+}
+
+/**
+ * Hand prefetched queries to the client components below it
+ *
+ * Dehydrates `queryClient` and renders TanStack's `HydrationBoundary`, so
+ * Vibe hooks start with the server's data instead of a loading state. Only
+ * successful queries are passed on. Document versions (`getDocumentVersion`)
+ * don't survive serialization; they return after the hook next refetches.
+ *
+ * Give the browser `QueryClient` a `staleTime` above zero, or the hooks
+ * refetch the hydrated data as soon as they mount.
+ *
+ * @example
+ * ```typescript
+ * <VibeHydrate queryClient={queryClient}>
+ *   <ProductDetail id={params.id} />
+ * </VibeHydrate>
+ * ```
+ */
+export function VibeHydrate({ queryClient, children }: VibeHydrateProps) {
+  return createElement(HydrationBoundary, { state: dehydrate(queryClient) }, children);
+}
+
+export { vibeKeys } from './keys';
+export type { ListOptions, VibeClient } from './types';
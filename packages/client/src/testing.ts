@@ -0,0 +1,160 @@
+/**
+ * @vibe/client/testing
+ *
+ * In-memory Vibe client for unit tests and stories. Requests run through the
+ * real client (middleware, retries, error mapping) and are served by an
+ * in-memory store instead of the network.
+ *
+ * @example
+ * ```typescript
+ * import { createMockVibeClient } from '@vibe/client/testing';
+ *
+ * const vibe = createMockVibeClient({
+ *   tables: {
+ *     products: [
+ *       { id: 1, name: 'Widget', price: 10 },
+ *       { id: 2, name: 'Gadget', price: 150 },
+ *     ],
+ *   },
+ * });
+ *
+ * const { data } = await vibe.collection('products').list({
+ *   filter: { price: { operator: 'gt', value: 100 } },
+ * });
+ * ```
+ */
+
+import type { VibeClient, VibeClientConfig, VibeTransport } from './types';
+import { createResolvedVibeClient, resolveConfig } from './client';
+import {
+  createMockVibeHandler,
+  type MockRequest,
+  type MockVibeHandler,
+  type MockVibeSeed,
+} from './mock';
+
+export {
+  createMockVibeHandler,
+  mockRoles,
+  mockTenant,
+  mockUsers,
+  type MockDocument,
+  type MockRequest,
+  type MockUser,
+  type MockVibeHandler,
+  type MockVibeHandlerOptions,
+  type MockVibeSeed,
+} from './mock';
+
+/** Base URL of the in-memory API */
+const MOCK_URL = 'http://vibe.mock';
+
+const PROXY_PATH = '/api/vibe/proxy';
+
+/** HMAC key for proxy-mode requests (base64 of 'mock-signing-key') */
+const MOCK_SIGNING_KEY = 'bW9jay1zaWduaW5nLWtleQ==';
+
+export interface MockVibeClientOptions
+  extends Omit<VibeClientConfig, 'apiUrl' | 'idpUrl' | 'routeUrl' | 'transport' | 'fetch'> {
+  /** Wire format to exercise. Default: 'direct' */
+  mode?: 'direct' | 'proxy';
+
+  /** Delay before each response, in milliseconds. Default: 0 */
+  latency?: number;
+}
+
+export interface MockVibeClient extends VibeClient {
+  /** In-memory API serving the client */
+  readonly server: MockVibeHandler;
+
+  /** Requests received so far, in order (proxy envelopes are unwrapped) */
+  readonly requests: MockRequest[];
+
+  /** Restore the seed and clear recorded requests */
+  reset(seed?: MockVibeSeed): void;
+}
+
+/**
+ * Create a Vibe client backed by an in-memory store
+ *
+ * Supports the full collection and admin surface: filters, ordering,
+ * pagination metadata, aggregates, `If-Match` versions, change
+ * subscriptions and `NOT_FOUND` errors. Roles, users and tenant default to
+ * `mockRoles`, `mockUsers` and `mockTenant`. Retries are off unless enabled.
+ *
+ * @example
+ * ```typescript
+ * const vibe = createMockVibeClient({ tables: { todos: [] } });
+ *
+ * await vibe.collection('todos').create({ title: 'Write tests' });
+ * expect(vibe.server.table('todos')).toHaveLength(1);
+ * expect(vibe.requests[0].method).toBe('POST');
+ * ```
+ */
+export function createMockVibeClient(
+  seed?: MockVibeSeed,
+  options: MockVibeClientOptions = {}
+): MockVibeClient {
+  const { mode = 'direct', latency = 0, ...config } = options;
+  const server = createMockVibeHandler(seed);
+  const requests: MockRequest[] = [];
+
+  const transport: VibeTransport = {
+    async send(request) {
+      if (latency > 0) {
+        await new Promise((resolve) => setTimeout(resolve, latency));
+      }
+      if (request.signal?.aborted) {
+        throw new DOMException('The operation was aborted', 'AbortError');
+      }
+
+      const url = new URL(request.url);
+      const body = request.body ? JSON.parse(request.body) : undefined;
+      const mockRequest: MockRequest =
+        url.pathname === PROXY_PATH
+          ? {
+              method: body.method,
+              endpoint: body.endpoint,
+              headers: { ...request.headers, ...body.headers },
+              body: body.data ?? undefined,
+            }
+          : {
+              method: request.method,
+              endpoint: url.pathname + url.search,
+              headers: request.headers,
+              body,
+            };
+
+      requests.push(mockRequest);
+      return server.handle(mockRequest);
+    },
+  };
+
+  // Every setting is given explicitly so IDP_URL, VIBE_HMAC_KEY and friends in
+  // the environment can't switch the mode or credentials
+  const resolved = resolveConfig({
+    retry: false,
+    clientId: 'mock-client',
+    signingKey: MOCK_SIGNING_KEY,
+    defaultCollection: 'vibe_app',
+    ...config,
+    apiUrl: MOCK_URL,
+    idpUrl: MOCK_URL,
+    transport,
+  });
+  const client = createResolvedVibeClient({
+    ...resolved,
+    idpUrl: mode === 'proxy' ? MOCK_URL : '',
+    routeUrl: '',
+    useProxy: mode === 'proxy',
+  });
+
+  return Object.assign(client, {
+    server,
+    requests,
+    reset(nextSeed?: MockVibeSeed) {
+      server.reset(nextSeed);
+      requests.length = 0;
+    },
+  });
+}
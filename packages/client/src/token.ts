@@ -0,0 +1,198 @@
+/**
+ * Access Tokens
+ *
+ * JWT claim helpers and a token manager that refreshes access tokens before
+ * they expire. Claims are decoded, not verified: use them for UI and request
+ * routing, and leave authorization to the server.
+ */
+
+import type { JwtClaims, TokenManager, TokenManagerOptions } from './types';
+
+/** Claims that may carry roles, in order of preference */
+const ROLE_CLAIMS = ['roles', 'role', 'http://schemas.microsoft.com/ws/2008/06/identity/claims/role'];
+
+/** Claims that may carry the tenant (client ID), in order of preference */
+const TENANT_CLAIMS = ['tenant_id', 'client_id'];
+
+/**
+ * Decode the payload of a JWT without verifying its signature
+ *
+ * @returns The claims, or null if the token is not a JWT
+ */
+export function decodeJwt(token: string | null | undefined): JwtClaims | null {
+  const payload = token?.split('.')[1];
+  if (!payload) return null;
+
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    const claims = JSON.parse(new TextDecoder().decode(bytes));
+    return claims && typeof claims === 'object' && !Array.isArray(claims) ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Roles carried by a JWT (`roles` or `role`, as an array or a space- or
+ * comma-separated string)
+ *
+ * @example
+ * ```typescript
+ * import { isAdmin, rolesFromToken } from '@vibe/client';
+ *
+ * if (isAdmin(rolesFromToken(session.accessToken))) {
+ *   // Show admin features
+ * }
+ * ```
+ */
+export function rolesFromToken(token: string | null | undefined): string[] {
+  return rolesFromClaims(decodeJwt(token));
+}
+
+/**
+ * Tenant (client ID) carried by a JWT (`tenant_id` or `client_id`)
+ */
+export function tenantFromToken(token: string | null | undefined): string | null {
+  return tenantFromClaims(decodeJwt(token));
+}
+
+/**
+ * Whether a JWT expires within `leeway` milliseconds (tokens without `exp`
+ * never expire)
+ */
+export function isTokenExpiring(token: string | null | undefined, leeway = 0): boolean {
+  const exp = decodeJwt(token)?.exp;
+  return typeof exp === 'number' && exp * 1000 - leeway <= Date.now();
+}
+
+/**
+ * Roles in decoded claims (see `rolesFromToken`)
+ */
+export function rolesFromClaims(claims: JwtClaims | null): string[] {
+  if (!claims) return [];
+
+  for (const name of ROLE_CLAIMS) {
+    const value = claims[name];
+    if (Array.isArray(value)) {
+      return value.map(String);
+    }
+    if (typeof value === 'string') {
+      return value.split(/[\s,]+/).filter(Boolean);
+    }
+  }
+  return [];
+}
+
+/**
+ * Tenant in decoded claims (see `tenantFromToken`)
+ */
+export function tenantFromClaims(claims: JwtClaims | null): string | null {
+  if (!claims) return null;
+
+  for (const name of TENANT_CLAIMS) {
+    const value = claims[name];
+    if (value !== undefined && value !== null && value !== '') {
+      return String(value);
+    }
+  }
+  return null;
+}
+
+/**
+ * Token manager implementation
+ */
+class TokenManagerImpl implements TokenManager {
+  private token: string | null;
+  private pending: Promise<string | null> | null = null;
+  private readonly leeway: number;
+
+  constructor(private readonly options: TokenManagerOptions) {
+    this.token = options.token ?? null;
+    this.leeway = options.refreshLeeway ?? 60000;
+  }
+
+  async getAccessToken(): Promise<string | null> {
+    if (!this.token && this.options.getToken) {
+      this.update(await this.options.getToken());
+    }
+
+    if (this.token && isTokenExpiring(this.token, this.leeway)) {
+      try {
+        return await this.refresh();
+      } catch {
+        // Let the server decide; a 401 triggers one more refresh
+        return this.token;
+      }
+    }
+
+    return this.token;
+  }
+
+  refresh(): Promise<string | null> {
+    if (!this.pending) {
+      this.pending = this.options
+        .refresh(this.token)
+        .then((token) => {
+          this.update(token);
+          return token;
+        })
+        .finally(() => {
+          this.pending = null;
+        });
+    }
+    return this.pending;
+  }
+
+  setToken(token: string | null): void {
+    this.update(token);
+  }
+
+  claims(): JwtClaims | null {
+    return decodeJwt(this.token);
+  }
+
+  roles(): string[] {
+    return rolesFromClaims(this.claims());
+  }
+
+  tenantId(): string | null {
+    return tenantFromClaims(this.claims());
+  }
+
+  private update(token: string | null): void {
+    if (token !== this.token) {
+      this.token = token;
+      this.options.onTokenChange?.(token);
+    }
+  }
+}
+
+/**
+ * Create a token manager for `VibeClientConfig.tokenManager`
+ *
+ * The client asks it for a token before each request; tokens expiring within
+ * `refreshLeeway` are refreshed first. After a 401 the client refreshes once
+ * and replays the request.
+ *
+ * @example
+ * ```typescript
+ * const tokens = createTokenManager({
+ *   getToken: async () => (await getSession())?.accessToken ?? null,
+ *   refresh: async () => {
+ *     const res = await fetch('/api/auth/refresh', { method: 'POST' });
+ *     return res.ok ? (await res.json()).accessToken : null;
+ *   },
+ * });
+ *
+ * const vibe = createVibeClient({ tokenManager: tokens });
+ *
+ * if (isAdmin(tokens.roles())) {
+ *   // ...
+ * }
+ * ```
+ */
+export function createTokenManager(options: TokenManagerOptions): TokenManager {
+  return new TokenManagerImpl(options);
+}
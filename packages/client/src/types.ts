@@ -4,6 +4,8 @@
  * Core type definitions for the Vibe SDK.
  */
 
+import type { VibeError } from './error';
+
 // =============================================================================
 // Configuration
 // =============================================================================
@@ -15,6 +17,13 @@ export interface VibeClientConfig {
   /** IDP Proxy URL. When set, all requests route through IDP proxy. Default: process.env.IDP_URL */
   idpUrl?: string;
 
+  /**
+   * Same-origin route served by `createVibeRouteHandler` (e.g. '/api/vibe').
+   * When set, requests go unsigned to this route, which signs them on the
+   * server. Takes precedence over `idpUrl`; use it in browser bundles.
+   */
+  routeUrl?: string;
+
   /** Vibe Client ID for IDP proxy auth. Default: process.env.VIBE_CLIENT_ID */
   clientId?: string;
 
@@ -27,11 +36,251 @@ export interface VibeClientConfig {
   /** Function to get access token for authenticated requests */
   getAccessToken?: () => Promise<string | null>;
 
+  /**
+   * Token manager from `createTokenManager`. Supplies the access token
+   * (refreshed before it expires) and replays a request once after a 401.
+   * Takes precedence over `getAccessToken`.
+   */
+  tokenManager?: TokenManager;
+
   /** Enable debug logging */
   debug?: boolean;
 
   /** Default request timeout in milliseconds. Default: 30000 */
   timeout?: number;
+
+  /** Retry policy for transient failures. Pass false to disable retries. */
+  retry?: RetryOptions | false;
+
+  /** Request middleware, run in order around every request */
+  middleware?: VibeMiddleware[];
+
+  /** Custom fetch implementation (e.g. undici with keep-alive). Default: globalThis.fetch */
+  fetch?: VibeFetch;
+
+  /** Custom transport for every request. Takes precedence over `fetch`. */
+  transport?: VibeTransport;
+
+  /** Access policies per collection, checked before each request */
+  policies?: VibePolicies;
+
+  /** Current user for policy checks. Default: no user */
+  getUser?: () => PolicyUser | null | Promise<PolicyUser | null>;
+}
+
+// =============================================================================
+// Access Tokens
+// =============================================================================
+
+/**
+ * Claims of a decoded JWT
+ */
+export interface JwtClaims {
+  sub?: string;
+  /** Expiry, in seconds since the epoch */
+  exp?: number;
+  iat?: number;
+  roles?: string[] | string;
+  role?: string[] | string;
+  tenant_id?: string;
+  client_id?: string;
+  [claim: string]: unknown;
+}
+
+export interface TokenManagerOptions {
+  /** Initial access token */
+  token?: string | null;
+
+  /** Source of the access token when none is held (e.g. the session) */
+  getToken?: () => string | null | Promise<string | null>;
+
+  /** Obtain a new access token. Return null when the session has ended. */
+  refresh: (currentToken: string | null) => Promise<string | null>;
+
+  /** Refresh this many milliseconds before the token expires. Default: 60000 */
+  refreshLeeway?: number;
+
+  /** Called when the held token changes */
+  onTokenChange?: (token: string | null) => void;
+}
+
+export interface TokenManager {
+  /** Access token, refreshed first if it expires within the leeway */
+  getAccessToken(): Promise<string | null>;
+
+  /** Refresh now. Concurrent calls share one refresh. */
+  refresh(): Promise<string | null>;
+
+  /** Replace the held token (e.g. after sign-in) */
+  setToken(token: string | null): void;
+
+  /** Claims of the held token, or null */
+  claims(): JwtClaims | null;
+
+  /** Roles of the held token, for `hasRole`/`isAdmin` */
+  roles(): string[];
+
+  /** Tenant (client ID) of the held token, or null */
+  tenantId(): string | null;
+}
+
+// =============================================================================
+// Access Policies
+// =============================================================================
+
+/**
+ * Roles a policy requires: a role name, any of several role names, or a
+ * minimum `ROLE_HIERARCHY` level. Hierarchy roles are also satisfied by
+ * higher roles.
+ */
+export type PolicyRoles = string | readonly string[] | number;
+
+export interface PolicyUser {
+  id?: string | number;
+  roles: string[];
+  /** Other claims, available to `rowFilter` */
+  [claim: string]: unknown;
+}
+
+export interface CollectionPolicy {
+  /** Roles allowed to list, get, count, aggregate and subscribe. Default: anyone */
+  read?: PolicyRoles;
+
+  /** Roles allowed to create, update and delete. Default: anyone */
+  write?: PolicyRoles;
+
+  /**
+   * Limit reads and writes to matching rows, in `ListOptions.filter` shorthand.
+   * New documents get the filter's equality fields filled in.
+   */
+  rowFilter?: (user: PolicyUser) => Record<string, unknown>;
+}
+
+/**
+ * Access policies by collection name
+ *
+ * @example
+ * ```typescript
+ * const policies: VibePolicies = {
+ *   products: { read: 'vibe_app_user', write: ADMIN_ROLES },
+ *   notes: { read: 'vibe_app_user', rowFilter: (user) => ({ owner_id: user.id }) },
+ * };
+ * ```
+ */
+export type VibePolicies = Record<string, CollectionPolicy>;
+
+// =============================================================================
+// Transport
+// =============================================================================
+
+export type VibeFetch = (input: string, init?: RequestInit) => Promise<Response>;
+
+export interface VibeTransportRequest {
+  /** Request URL (API URL in direct mode, proxy URL in proxy mode, route URL in route mode) */
+  url: string;
+
+  /** HTTP method sent on the wire */
+  method: string;
+
+  headers: Record<string, string>;
+
+  /** JSON-serialized request body */
+  body?: string;
+
+  /** Aborted when the request times out */
+  signal?: AbortSignal;
+}
+
+/**
+ * Low-level transport that delivers a prepared request
+ *
+ * Implement this to route requests through a custom HTTP stack or to serve
+ * them in-process (e.g. in tests).
+ */
+export interface VibeTransport {
+  send(request: VibeTransportRequest): Promise<Response>;
+}
+
+// =============================================================================
+// Middleware
+// =============================================================================
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface VibeRequestContext {
+  /** Vibe API endpoint path, e.g. /v1/products?limit=20 */
+  endpoint: string;
+
+  /** Logical HTTP method (proxy mode still sends POST to the proxy) */
+  method: HttpMethod;
+
+  /** Request headers, including Authorization when a token is available */
+  headers: Record<string, string>;
+
+  /** Request body, serialized as JSON when dispatched */
+  body: unknown;
+
+  /** Transport the request will be dispatched through */
+  mode: 'direct' | 'proxy' | 'route';
+
+  /** Attempt number, starting at 1 (increments on retry) */
+  attempt: number;
+}
+
+/**
+ * Request middleware
+ *
+ * May modify `ctx` before calling `next()`, and inspect or replace the
+ * `Response` it resolves to. Non-2xx responses are mapped to `VibeError`
+ * after the whole chain has run.
+ */
+export type VibeMiddleware = (
+  ctx: VibeRequestContext,
+  next: () => Promise<Response>
+) => Promise<Response>;
+
+// =============================================================================
+// Request Options
+// =============================================================================
+
+export interface RetryOptions {
+  /** Total number of attempts, including the first one. Default: 3 */
+  maxAttempts?: number;
+
+  /** Base delay in milliseconds for exponential backoff. Default: 300 */
+  baseDelay?: number;
+
+  /** Upper bound in milliseconds for a single backoff delay. Default: 10000 */
+  maxDelay?: number;
+
+  /** Honor the Retry-After header on 429/503 responses. Default: true */
+  respectRetryAfter?: boolean;
+
+  /**
+   * Also retry non-idempotent methods (POST, PATCH).
+   * Only enable this when the server deduplicates writes. Default: false
+   */
+  retryNonIdempotent?: boolean;
+}
+
+export interface RequestOptions {
+  /** Override the client retry policy for this call. Pass false to disable retries. */
+  retry?: RetryOptions | false;
+
+  /** Abort the request (and any pending retries) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for update and delete
+ */
+export interface WriteOptions extends RequestOptions {
+  /**
+   * Expected document version (see `getDocumentVersion`). Sent as `If-Match`;
+   * if the server has a different version the call fails with CONFLICT and
+   * `details.currentVersion`.
+   */
+  ifMatch?: string | number;
 }
 
 // =============================================================================
@@ -53,6 +302,352 @@ export interface ListOptions {
 
   /** Field filters */
   filter?: Record<string, unknown>;
+
+  /** Explicit filter conditions and logical groups, ANDed with `filter` */
+  where?: FilterNode[];
+
+  /**
+   * Keyset pagination cursor. Pass null for the first page, then the previous
+   * page's `pagination.nextCursor`. When set, `offset` is ignored.
+   */
+  cursor?: string | null;
+}
+
+/** Options for `useVibeInfiniteCollection` (`@vibe/client/react`) */
+export interface UseVibeInfiniteCollectionOptions extends Omit<ListOptions, 'offset' | 'cursor'> {
+  /** Enable or disable the query */
+  enabled?: boolean;
+
+  /**
+   * How to fetch the next page: by offset while `pagination.hasMore`, or by
+   * keyset cursor (`pagination.nextCursor`, stable under inserts). Default: 'offset'
+   */
+  paging?: 'offset' | 'cursor';
+}
+
+// =============================================================================
+// Projection & Expansion
+// =============================================================================
+
+/**
+ * Table name to document type map used to type expanded relations.
+ * Augmented by the types generated with `@vibe/next-plugin`.
+ */
+export interface VibeSchema {}
+
+/** Foreign key field to referenced table, e.g. `{ owner_id: 'users' }` */
+export type ExpandMap = Readonly<Record<string, string>>;
+
+/**
+ * Field projection and relation expansion for `list` and `get`
+ *
+ * @example
+ * ```typescript
+ * const { data } = await vibe.collection('projects').list({
+ *   select: ['id', 'name'],
+ *   expand: { owner_id: 'users' },
+ * });
+ * data[0].owner_id?.email; // typed as the generated `Users` interface
+ * ```
+ */
+export interface ProjectionOptions<
+  T,
+  S extends FieldName<T> = FieldName<T>,
+  E extends ExpandMap = ExpandMap,
+> {
+  /** Only return these fields (plus any `expand` keys) */
+  select?: readonly S[];
+
+  /** Replace foreign key fields with the referenced document (null when missing) */
+  expand?: E;
+}
+
+/** Document type of a table, or unknown when it is not in VibeSchema */
+export type TableDocument<N> = N extends keyof VibeSchema ? VibeSchema[N] : unknown;
+
+/**
+ * Result type of a projected query: the selected fields of T (all of them when
+ * nothing is selected) with expanded fields replaced by the referenced document
+ */
+export type Projected<T, S extends string = never, E extends ExpandMap = {}> = [
+  S,
+  keyof E,
+] extends [never, never]
+  ? T
+  : unknown extends T
+    ? T
+    : Omit<[S] extends [never] ? T : Pick<T, Extract<S, keyof T>>, keyof E> & {
+        [K in keyof E]: TableDocument<E[K]> | null;
+      };
+
+// =============================================================================
+// Aggregation
+// =============================================================================
+
+/**
+ * Options for `collection.aggregate()`
+ *
+ * Each of `sum`, `avg`, `min` and `max` lists the fields to compute that
+ * function over. Without `groupBy` the result has a single row.
+ */
+export interface AggregateOptions<
+  T,
+  G extends FieldName<T> = never,
+  Sum extends FieldName<T> = never,
+  Avg extends FieldName<T> = never,
+  Min extends FieldName<T> = never,
+  Max extends FieldName<T> = never,
+> {
+  /** Field filters */
+  filter?: Record<string, unknown>;
+
+  /** Explicit filter conditions and logical groups, ANDed with `filter` */
+  where?: FilterNode[];
+
+  /** Fields to group by; each result row carries their values */
+  groupBy?: readonly G[];
+
+  sum?: readonly Sum[];
+  avg?: readonly Avg[];
+  min?: readonly Min[];
+  max?: readonly Max[];
+}
+
+/**
+ * One aggregate row: group values plus `count` and the requested functions.
+ * `avg`, `min` and `max` are null for groups with no non-null values.
+ */
+export type AggregateRow<
+  T,
+  G extends string = never,
+  Sum extends string = never,
+  Avg extends string = never,
+  Min extends string = never,
+  Max extends string = never,
+> = { [K in G]: FieldValue<T, K> } & {
+  count: number;
+  sum: { [K in Sum]: number };
+  avg: { [K in Avg]: number | null };
+  min: { [K in Min]: FieldValue<T, K> | null };
+  max: { [K in Max]: FieldValue<T, K> | null };
+};
+
+// =============================================================================
+// Upsert
+// =============================================================================
+
+export interface UpsertResult<T> {
+  data: T;
+  /** True if a new document was created, false if an existing one matched */
+  created: boolean;
+}
+
+// =============================================================================
+// Bulk Operations
+// =============================================================================
+
+export interface BulkOptions extends RequestOptions {
+  /** Items processed per chunk; chunks run one after another. Default: 50 */
+  chunkSize?: number;
+
+  /** Maximum concurrent requests within a chunk. Default: 5 */
+  concurrency?: number;
+}
+
+/** Documents targeted by a bulk update or delete: explicit ids or a filter */
+export type BulkTarget =
+  | { ids: ReadonlyArray<string | number> }
+  | Pick<ListOptions, 'filter' | 'where'>;
+
+export interface BulkSuccess<R> {
+  /** Position of the item in the input (or in the resolved id list) */
+  index: number;
+  /** Document id, when known */
+  id?: string | number;
+  data: R;
+}
+
+export interface BulkFailure {
+  /** Position of the item in the input (or in the resolved id list) */
+  index: number;
+  /** Document id, when known */
+  id?: string | number;
+  error: VibeError;
+}
+
+export interface BulkResult<R> {
+  succeeded: BulkSuccess<R>[];
+  failed: BulkFailure[];
+}
+
+// =============================================================================
+// Realtime
+// =============================================================================
+
+export type ChangeType = 'insert' | 'update' | 'delete';
+
+/**
+ * A change to a document, delivered to `collection.subscribe()` handlers
+ */
+export interface ChangeEvent<T> {
+  type: ChangeType;
+
+  /** Id of the changed document */
+  id: string | number;
+
+  /** The document after the change (absent for deletes) */
+  data?: T;
+
+  /** Resume token; pass as `resumeToken` to continue after this event */
+  eventId?: string;
+}
+
+export interface SubscribeOptions {
+  /** Resume after this event (a previous `lastEventId`) instead of from now */
+  resumeToken?: string;
+
+  /**
+   * Reconnect policy after the stream drops. `maxAttempts` counts consecutive
+   * failed connections. Default: unlimited attempts, 1s base delay, 30s max.
+   * Pass false to stop on the first disconnect.
+   */
+  reconnect?: RetryOptions | false;
+
+  /** Called each time the stream (re)connects */
+  onOpen?: () => void;
+
+  /** Called on every connection failure; the subscription retries unless the error is permanent */
+  onError?: (error: VibeError) => void;
+}
+
+export interface VibeSubscription {
+  /** Close the stream and stop reconnecting */
+  unsubscribe(): void;
+
+  /** Id of the last event received, usable as a `resumeToken` */
+  readonly lastEventId: string | undefined;
+}
+
+// =============================================================================
+// Filters & Query Builder
+// =============================================================================
+
+export type FilterOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'nin' | 'like';
+
+export interface FilterCondition {
+  field: string;
+  operator: FilterOperator;
+  value: unknown;
+}
+
+/**
+ * Logical group of filters
+ *
+ * - `and`: every filter matches
+ * - `or`: at least one filter matches
+ * - `not`: the filters, ANDed together, do not match
+ */
+export interface FilterGroup {
+  logic: 'and' | 'or' | 'not';
+  filters: FilterNode[];
+}
+
+export type FilterNode = FilterCondition | FilterGroup;
+
+/** Field names of T, or any string when T is untyped */
+export type FieldName<T> = unknown extends T ? string : Extract<keyof T, string>;
+
+/** Value type of field K on T, or unknown when T is untyped */
+export type FieldValue<T, K extends string> = unknown extends T
+  ? unknown
+  : K extends keyof T
+    ? T[K]
+    : never;
+
+/** Value accepted by an operator for a field of type V */
+export type OperatorValue<V, O extends FilterOperator> = O extends 'in' | 'nin'
+  ? ReadonlyArray<NonNullable<V>>
+  : O extends 'like'
+    ? string
+    : V;
+
+/** Callback that fills a nested filter group */
+export type FilterGroupBuilder<T> = (group: FilterBuilder<T>) => FilterBuilder<T>;
+
+/**
+ * Chainable, immutable builder for a list of filter nodes
+ */
+export interface FilterBuilder<T> {
+  /** Add a condition */
+  where<K extends FieldName<T>, O extends FilterOperator>(
+    field: K,
+    operator: O,
+    value: OperatorValue<FieldValue<T, K>, O>
+  ): FilterBuilder<T>;
+
+  /** Add a group that matches when all of its filters match */
+  and(build: FilterGroupBuilder<T>): FilterBuilder<T>;
+
+  /** Add a group that matches when any of its filters match */
+  or(build: FilterGroupBuilder<T>): FilterBuilder<T>;
+
+  /** Add a group that matches when its filters (ANDed) do not match */
+  not(build: FilterGroupBuilder<T>): FilterBuilder<T>;
+
+  /** The filter nodes collected so far */
+  toFilters(): FilterNode[];
+}
+
+/**
+ * Chainable, immutable query over a collection
+ *
+ * Each method returns a new builder. Awaiting the builder runs `list()`.
+ */
+export interface QueryBuilder<T> extends PromiseLike<ListResult<T>> {
+  /** Add a condition (ANDed with existing conditions) */
+  where<K extends FieldName<T>, O extends FilterOperator>(
+    field: K,
+    operator: O,
+    value: OperatorValue<FieldValue<T, K>, O>
+  ): QueryBuilder<T>;
+
+  /** Add a group that matches when all of its filters match */
+  and(build: FilterGroupBuilder<T>): QueryBuilder<T>;
+
+  /** Add a group that matches when any of its filters match */
+  or(build: FilterGroupBuilder<T>): QueryBuilder<T>;
+
+  /** Add a group that matches when its filters (ANDed) do not match */
+  not(build: FilterGroupBuilder<T>): QueryBuilder<T>;
+
+  /** Set the sort field and direction. Default direction: 'asc' */
+  orderBy(field: FieldName<T>, direction?: 'asc' | 'desc'): QueryBuilder<T>;
+
+  /** Set the page size */
+  limit(limit: number): QueryBuilder<T>;
+
+  /** Set the number of rows to skip */
+  offset(offset: number): QueryBuilder<T>;
+
+  /** Compile to plain list options */
+  toListOptions(): ListOptions;
+
+  /** Execute the query */
+  list(requestOptions?: RequestOptions): Promise<ListResult<T>>;
+
+  /** Iterate over every matching document, page by page */
+  iterate(options?: Omit<IterateOptions, keyof ListOptions>): AsyncIterable<T>;
+
+  /** Iterate over every page of matching documents */
+  iteratePages(options?: Omit<IterateOptions, keyof ListOptions>): AsyncIterable<ListResult<T>>;
+}
+
+export interface IterateOptions extends Omit<ListOptions, 'limit'>, RequestOptions {
+  /** Number of documents fetched per request. Default: 100 */
+  pageSize?: number;
+
+  /** Number of pages fetched ahead of the consumer. Default: 1 */
+  prefetch?: number;
 }
 
 export interface Pagination {
@@ -60,6 +655,8 @@ export interface Pagination {
   limit: number;
   offset: number;
   hasMore: boolean;
+  /** Cursor for the next page (keyset mode only); null on the last page */
+  nextCursor?: string | null;
 }
 
 export interface ListResult<T> {
@@ -73,19 +670,96 @@ export interface ListResult<T> {
 
 export interface Collection<T> {
   /** List documents with optional pagination and filtering */
-  list(options?: ListOptions): Promise<ListResult<T>>;
+  list<const S extends FieldName<T> = never, const E extends ExpandMap = {}>(
+    options?: ListOptions & ProjectionOptions<T, S, E>,
+    requestOptions?: RequestOptions
+  ): Promise<ListResult<Projected<T, S, E>>>;
 
-  /** Get a single document by ID */
-  get(id: string | number): Promise<T | null>;
+  /** Get a single document by ID, optionally projected or expanded */
+  get<const S extends FieldName<T> = never, const E extends ExpandMap = {}>(
+    id: string | number,
+    options?: RequestOptions & ProjectionOptions<T, S, E>
+  ): Promise<Projected<T, S, E> | null>;
 
   /** Create a new document */
-  create(data: Partial<T>): Promise<T>;
+  create(data: Partial<T>, requestOptions?: RequestOptions): Promise<T>;
 
   /** Update an existing document */
-  update(id: string | number, data: Partial<T>): Promise<T>;
+  update(id: string | number, data: Partial<T>, options?: WriteOptions): Promise<T>;
 
   /** Delete a document */
-  delete(id: string | number): Promise<void>;
+  delete(id: string | number, options?: WriteOptions): Promise<void>;
+
+  /** Get the first document matching a filter, or null */
+  findOne(filter: Record<string, unknown>, requestOptions?: RequestOptions): Promise<T | null>;
+
+  /** Return the document matching `filter`, creating it from `filter` + `defaults` if none exists */
+  findOrCreate(
+    filter: Record<string, unknown>,
+    defaults?: Partial<T>,
+    requestOptions?: RequestOptions
+  ): Promise<UpsertResult<T>>;
+
+  /** Update the document matching `match`, or create it from `match` + `data` */
+  upsert(
+    match: Record<string, unknown>,
+    data: Partial<T>,
+    requestOptions?: RequestOptions
+  ): Promise<UpsertResult<T>>;
+
+  /** Count documents matching a filter */
+  count(filter?: Record<string, unknown>, requestOptions?: RequestOptions): Promise<number>;
+
+  /** Compute count, sum, avg, min and max, optionally grouped */
+  aggregate<
+    const G extends FieldName<T> = never,
+    const Sum extends FieldName<T> = never,
+    const Avg extends FieldName<T> = never,
+    const Min extends FieldName<T> = never,
+    const Max extends FieldName<T> = never,
+  >(
+    options: AggregateOptions<T, G, Sum, Avg, Min, Max>,
+    requestOptions?: RequestOptions
+  ): Promise<Array<AggregateRow<T, G, Sum, Avg, Min, Max>>>;
+
+  /** Distinct values of a field among documents matching a filter */
+  distinct<K extends FieldName<T>>(
+    field: K,
+    filter?: Record<string, unknown>,
+    requestOptions?: RequestOptions
+  ): Promise<Array<FieldValue<T, K>>>;
+
+  /** Stream insert/update/delete events for documents matching a filter */
+  subscribe(
+    filter: Record<string, unknown> | null,
+    handler: (event: ChangeEvent<T>) => void,
+    options?: SubscribeOptions
+  ): VibeSubscription;
+
+  /** Create many documents; failures are reported per item */
+  createMany(items: ReadonlyArray<Partial<T>>, options?: BulkOptions): Promise<BulkResult<T>>;
+
+  /** Apply the same partial update to many documents, selected by ids or filter */
+  updateMany(target: BulkTarget, data: Partial<T>, options?: BulkOptions): Promise<BulkResult<T>>;
+
+  /** Delete many documents, selected by ids or filter. Successful items carry the deleted id. */
+  deleteMany(target: BulkTarget, options?: BulkOptions): Promise<BulkResult<string | number>>;
+
+  /** Iterate over every matching document, fetching pages as needed */
+  iterate(options?: IterateOptions): AsyncIterable<T>;
+
+  /** Iterate over every page of matching documents */
+  iteratePages(options?: IterateOptions): AsyncIterable<ListResult<T>>;
+
+  /** Start a query builder */
+  query(): QueryBuilder<T>;
+
+  /** Start a query builder with a first condition */
+  where<K extends FieldName<T>, O extends FilterOperator>(
+    field: K,
+    operator: O,
+    value: OperatorValue<FieldValue<T, K>, O>
+  ): QueryBuilder<T>;
 }
 
 // =============================================================================
@@ -98,6 +772,9 @@ export interface VibeClient {
 
   /** Admin namespace for administrative operations */
   admin: VibeAdminClient;
+
+  /** Append a middleware to the request pipeline. Returns the client for chaining. */
+  use(middleware: VibeMiddleware): VibeClient;
 }
 
 // =============================================================================
@@ -189,4 +866,6 @@ export interface VibeErrorDetails {
   message: string;
   status?: number;
   details?: Record<string, unknown>;
+  /** Delay in milliseconds requested by the server via Retry-After */
+  retryAfter?: number;
 }
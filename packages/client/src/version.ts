@@ -0,0 +1,100 @@
+/**
+ * Document Versions
+ *
+ * Tracks the server version (ETag or envelope version) of fetched documents
+ * for optimistic concurrency. Versions are kept out of the document itself so
+ * typed results don't grow extra fields. They are looked up by object and,
+ * for copies (TanStack Query's structural sharing, spreads), by content.
+ */
+
+const versions = new WeakMap<object, string>();
+
+/** Versions by document content, oldest first */
+const versionsByContent = new Map<string, string>();
+
+/** Documents remembered by content before the oldest are dropped */
+const MAX_CONTENT_VERSIONS = 1000;
+
+/** Envelope fields that carry a document version, in priority order */
+const VERSION_FIELDS = ['version', '_version', 'etag', '_etag', 'row_version'] as const;
+
+/**
+ * Server version of a document returned by `list`, `get`, `create` or `update`
+ *
+ * Also works for unchanged copies of such a document, e.g. the query cache's
+ * data. Versions aren't serialized: documents hydrated from a server render
+ * have one again once the browser refetches them.
+ *
+ * Pass it as `ifMatch` to make an update or delete fail with CONFLICT when
+ * the document changed in the meantime.
+ *
+ * @example
+ * ```typescript
+ * const doc = await vibe.collection('articles').get(id);
+ * await vibe.collection('articles').update(id, changes, {
+ *   ifMatch: getDocumentVersion(doc),
+ * });
+ * ```
+ */
+export function getDocumentVersion(doc: unknown): string | undefined {
+  if (!doc || typeof doc !== 'object') return undefined;
+
+  const version = versions.get(doc) ?? lookupByContent(doc);
+  if (version) {
+    versions.set(doc, version);
+  }
+  return version;
+}
+
+/**
+ * Record the version of a document (no-op when the version is unknown)
+ */
+export function setDocumentVersion(doc: unknown, version: string | null | undefined): void {
+  if (!doc || typeof doc !== 'object' || !version) return;
+
+  versions.set(doc, version);
+
+  const key = contentKey(doc);
+  if (key !== undefined) {
+    versionsByContent.delete(key);
+    versionsByContent.set(key, version);
+    if (versionsByContent.size > MAX_CONTENT_VERSIONS) {
+      versionsByContent.delete(versionsByContent.keys().next().value!);
+    }
+  }
+}
+
+function lookupByContent(doc: object): string | undefined {
+  const key = contentKey(doc);
+  return key === undefined ? undefined : versionsByContent.get(key);
+}
+
+/** JSON of a document, or undefined when it can't be serialized */
+function contentKey(doc: object): string | undefined {
+  try {
+    return JSON.stringify(doc);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read the version from a Vibe envelope's metadata
+ */
+export function envelopeVersion(envelope: Record<string, unknown>): string | undefined {
+  for (const field of VERSION_FIELDS) {
+    const value = envelope[field];
+    if (typeof value === 'string' || typeof value === 'number') {
+      return String(value);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Format a version as an `If-Match` entity tag, quoting bare versions
+ */
+export function toEntityTag(version: string | number): string {
+  const tag = String(version);
+  return tag.startsWith('"') || tag.startsWith('W/') ? tag : `"${tag}"`;
+}
@@ -18,4 +18,27 @@ export default defineConfig([
     sourcemap: true,
     external: ['react', '@tanstack/react-query'],
   },
+  // Server entry (prefetch and hydration for server components)
+  {
+    entry: ['src/server.ts'],
+    format: ['cjs', 'esm'],
+    dts: true,
+    sourcemap: true,
+    external: ['react', '@tanstack/react-query'],
+  },
+  // Edge entry (role, token and policy helpers without the HTTP client)
+  {
+    entry: ['src/edge.ts'],
+    format: ['cjs', 'esm'],
+    dts: true,
+    sourcemap: true,
+  },
+  // Testing entry (in-memory mock client)
+  {
+    entry: ['src/testing.ts'],
+    format: ['cjs', 'esm'],
+    dts: true,
+    sourcemap: true,
+    external: ['react', '@tanstack/react-query'],
+  },
 ]);
@@ -6,8 +6,10 @@
  * Usage:
  *   npx vibe sync           # Sync types from Vibe API
  *   npx vibe sync --debug   # Sync with debug logging
+ *   npx vibe serve          # Start a local Vibe server from JSON fixtures
  */
 
+import { startLocalVibeServer } from './local-server';
 import { generateTypes, resolveGeneratorOptions } from './type-generator';
 
 const HELP_TEXT = `
@@ -18,15 +20,25 @@ Usage:
 
 Commands:
   sync          Fetch schemas and generate TypeScript types
+  serve         Start a local Vibe server (IDP proxy stand-in) from JSON fixtures
   help          Show this help message
 
 Options:
   --debug       Enable debug logging
   --output      Output directory (default: node_modules/.vibe/types)
+  --idp-url     IDP proxy URL (default: IDP_URL env var)
   --api-url     Vibe API URL (default: VIBE_API_URL env var)
   --client-id   Client ID (default: VIBE_CLIENT_ID env var)
 
+Serve Options:
+  --port          Port to listen on (default: 4010)
+  --host          Host to bind (default: 127.0.0.1)
+  --fixtures      Directory of {table}.json fixture files (default: ./vibe-fixtures)
+  --signing-key   HMAC key to verify (default: VIBE_HMAC_KEY env var)
+
 Environment Variables:
+  IDP_URL               IDP proxy URL (preferred)
+  VIBE_HMAC_KEY         HMAC signing key for the IDP proxy
   VIBE_API_URL          Vibe API base URL
   VIBE_CLIENT_ID        Client ID for authentication
   VIBE_CLIENT_SECRET    Client secret for authentication
@@ -35,6 +47,7 @@ Examples:
   npx vibe sync
   npx vibe sync --debug
   npx vibe sync --output ./types/vibe
+  npx vibe serve --fixtures ./test/fixtures --port 4010
 `;
 
 async function main(): Promise<void> {
@@ -48,6 +61,8 @@ async function main(): Promise<void> {
 
   if (command === 'sync') {
     await runSync(args.slice(1));
+  } else if (command === 'serve') {
+    await runServe(args.slice(1));
   } else {
     console.error(`Unknown command: ${command}`);
     console.log(HELP_TEXT);
@@ -58,31 +73,31 @@ async function main(): Promise<void> {
 async function runSync(args: string[]): Promise<void> {
   // Parse arguments
   const debug = args.includes('--debug');
-  const outputIndex = args.indexOf('--output');
-  const output = outputIndex !== -1 ? args[outputIndex + 1] : undefined;
-  const apiUrlIndex = args.indexOf('--api-url');
-  const apiUrl = apiUrlIndex !== -1 ? args[apiUrlIndex + 1] : undefined;
-  const clientIdIndex = args.indexOf('--client-id');
-  const clientId = clientIdIndex !== -1 ? args[clientIdIndex + 1] : undefined;
+  const output = readFlag(args, '--output');
+  const idpUrl = readFlag(args, '--idp-url');
+  const apiUrl = readFlag(args, '--api-url');
+  const clientId = readFlag(args, '--client-id');
 
   console.log('[vibe] Syncing types from Vibe API...\n');
 
   const options = resolveGeneratorOptions({
+    idpUrl,
     apiUrl,
     clientId,
     outputDir: output,
     debug,
   });
 
-  if (!options.apiUrl) {
-    console.error('Error: VIBE_API_URL is not set.');
-    console.error('Set the VIBE_API_URL environment variable or use --api-url flag.');
+  if (!options.idpUrl && !options.apiUrl) {
+    console.error('Error: Neither IDP_URL nor VIBE_API_URL is set.');
+    console.error('Set the IDP_URL environment variable or use the --idp-url flag.');
     process.exit(1);
   }
 
   if (debug) {
     console.log('Configuration:');
-    console.log(`  API URL: ${options.apiUrl}`);
+    console.log(`  IDP URL: ${options.idpUrl || '(not set)'}`);
+    console.log(`  API URL: ${options.apiUrl || '(not set)'}`);
     console.log(`  Client ID: ${options.clientId || '(not set)'}`);
     console.log(`  Output: ${options.outputDir}`);
     console.log('');
@@ -109,6 +124,40 @@ async function runSync(args: string[]): Promise<void> {
   }
 }
 
+async function runServe(args: string[]): Promise<void> {
+  const port = Number(readFlag(args, '--port') ?? 4010);
+  const host = readFlag(args, '--host');
+  const fixtures = readFlag(args, '--fixtures') ?? './vibe-fixtures';
+  const clientId = readFlag(args, '--client-id') ?? process.env.VIBE_CLIENT_ID;
+  const signingKey = readFlag(args, '--signing-key') ?? process.env.VIBE_HMAC_KEY;
+
+  const server = await startLocalVibeServer({
+    port,
+    host,
+    fixtures,
+    clientId,
+    signingKey,
+    debug: args.includes('--debug'),
+  });
+
+  console.log(`[vibe] Local Vibe server listening on ${server.url}`);
+  console.log(`  Fixtures: ${fixtures}`);
+  console.log(`  Signatures: ${signingKey ? 'verified' : 'not required (no signing key)'}`);
+  console.log('\nPoint your app at it with:');
+  console.log(`  IDP_URL=${server.url}`);
+
+  const shutdown = () => {
+    server.close().finally(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+function readFlag(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
 // Run CLI
 main().catch((error) => {
   console.error('Fatal error:', error);
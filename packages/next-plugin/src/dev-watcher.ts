@@ -110,11 +110,13 @@ async function fetchSchemaHash(options: {
   idpUrl: string;
   clientId: string;
   signingKey: string;
+  fetch?: typeof fetch;
   apiUrl?: string;
   clientSecret?: string;
 }): Promise<string> {
   try {
     const endpoint = '/v1/schemas/hash';
+    const fetchImpl = options.fetch ?? fetch;
     let response: Response;
 
     // Use IDP proxy if configured
@@ -135,14 +137,14 @@ async function fetchSchemaHash(options: {
         headers['X-Vibe-Signature'] = signature;
       }
 
-      response = await fetch(`${options.idpUrl}/api/vibe/proxy`, {
+      response = await fetchImpl(`${options.idpUrl}/api/vibe/proxy`, {
         method: 'POST',
         headers,
         body: JSON.stringify({ endpoint, method: 'GET', data: null }),
       });
     } else if (options.apiUrl) {
       // Legacy direct API
-      response = await fetch(`${options.apiUrl}${endpoint}`, {
+      response = await fetchImpl(`${options.apiUrl}${endpoint}`, {
         method: 'GET',
         headers: {
           'X-Vibe-Client-Id': options.clientId,
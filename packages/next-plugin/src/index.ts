@@ -42,12 +42,27 @@ export { generateTypes, resolveGeneratorOptions } from './type-generator';
 // Dev watcher
 export { startDevWatcher, stopDevWatcher } from './dev-watcher';
 
+// Local server
+export { startLocalVibeServer } from './local-server';
+
+// Route handler
+export { createVibeRouteHandler, DEFAULT_ROUTE_RULES } from './route-handler';
+
 // Types
 export type {
   VibePluginOptions,
   TypeGenerationResult,
   CollectionSchema,
   SchemaField,
+  LocalVibeServerOptions,
+  LocalVibeFixtures,
+  LocalVibeServer,
+  VibeRouteHandler,
+  VibeRouteHandlerOptions,
+  VibeRouteMethod,
+  VibeRouteParams,
+  VibeRouteRule,
+  VibeRouteSession,
 } from './types';
 
 // Default export for CommonJS compatibility
@@ -0,0 +1,397 @@
+/**
+ * Local Vibe Server
+ *
+ * Stand-in for the IDP Vibe proxy and the Vibe API in integration tests and
+ * local development. Verifies HMAC-signed proxy requests, serves tables from
+ * JSON fixtures in the Vibe document envelope, and exposes the schema
+ * endpoints used by `npx vibe sync` and the dev watcher.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as path from 'path';
+import { createMockVibeHandler, type MockRequest } from '@vibe/client/testing';
+import { generateHmacSignature, schemaToTypeScript } from './schema-fetcher';
+import type {
+  CollectionSchema,
+  LocalVibeFixtures,
+  LocalVibeServer,
+  LocalVibeServerOptions,
+  SchemaField,
+} from './types';
+
+const PROXY_PATH = '/api/vibe/proxy';
+
+interface ProxyEnvelope {
+  endpoint: string;
+  method: string;
+  data?: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Start a local Vibe server
+ *
+ * The returned `url` works as `IDP_URL` (proxy mode, `POST /api/vibe/proxy`)
+ * and as `VIBE_API_URL` (direct mode). Writes are kept in memory until
+ * `reset()` or `close()`.
+ *
+ * @example
+ * ```typescript
+ * const server = await startLocalVibeServer({
+ *   port: 0,
+ *   fixtures: './test/fixtures',
+ *   clientId: 'vibe_test',
+ *   signingKey: Buffer.from('test-key').toString('base64'),
+ * });
+ *
+ * const vibe = createVibeClient({
+ *   idpUrl: server.url,
+ *   clientId: 'vibe_test',
+ *   signingKey: Buffer.from('test-key').toString('base64'),
+ * });
+ *
+ * // ...
+ * await server.close();
+ * ```
+ */
+export async function startLocalVibeServer(
+  options: LocalVibeServerOptions = {}
+): Promise<LocalVibeServer> {
+  const { port = 4010, host = '127.0.0.1', debug = false } = options;
+
+  const fixtures =
+    typeof options.fixtures === 'string'
+      ? loadFixtures(options.fixtures)
+      : (options.fixtures ?? { tables: {} });
+  const schemas = { ...inferSchemas(fixtures.tables), ...fixtures.schemas };
+  const schemaHash = createHash('sha256').update(JSON.stringify(schemas)).digest('hex');
+  const api = createMockVibeHandler({ tables: fixtures.tables }, { envelopes: true });
+
+  async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const headers = flattenHeaders(req.headers);
+
+    let body: unknown;
+    try {
+      body = await readJson(req);
+    } catch {
+      sendJson(res, 400, { error: { message: 'Invalid JSON body' } });
+      return;
+    }
+
+    let request: MockRequest;
+
+    if (req.method === 'POST' && url.pathname === PROXY_PATH) {
+      const envelope = body as ProxyEnvelope | undefined;
+      if (!envelope?.endpoint || !envelope.method) {
+        sendJson(res, 400, { error: { message: 'Proxy body requires endpoint and method' } });
+        return;
+      }
+
+      const authError = verifyProxyRequest(req.headers, envelope, options);
+      if (authError) {
+        if (debug) {
+          console.warn(`[vibe-server] Rejected ${envelope.method} ${envelope.endpoint}: ${authError}`);
+        }
+        sendJson(res, 401, { error: { message: authError } });
+        return;
+      }
+
+      request = {
+        method: envelope.method,
+        endpoint: envelope.endpoint,
+        headers: { ...headers, ...envelope.headers },
+        body: envelope.data ?? undefined,
+      };
+    } else {
+      request = {
+        method: req.method ?? 'GET',
+        endpoint: url.pathname + url.search,
+        headers,
+        body,
+      };
+    }
+
+    if (debug) {
+      console.log(`[vibe-server] ${request.method} ${request.endpoint}`);
+    }
+
+    const response =
+      serveSchemas(request, schemas, schemaHash) ?? (await api.handle(request));
+    await sendResponse(res, response);
+  }
+
+  const server = http.createServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      if (!res.headersSent) {
+        sendJson(res, 500, {
+          error: { message: error instanceof Error ? error.message : String(error) },
+        });
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = server.address() as AddressInfo;
+
+  return {
+    url: `http://${host}:${address.port}`,
+    port: address.port,
+    reset: () => api.reset(),
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        // Subscription streams never end on their own
+        server.closeAllConnections();
+      }),
+  };
+}
+
+/**
+ * Check the client ID, timestamp window and HMAC signature of a proxy request
+ *
+ * @returns The reason the request is rejected, or null when it is accepted
+ */
+function verifyProxyRequest(
+  headers: http.IncomingHttpHeaders,
+  envelope: ProxyEnvelope,
+  options: LocalVibeServerOptions
+): string | null {
+  const clientId = headers['x-vibe-client-id'];
+  if (options.clientId && clientId !== options.clientId) {
+    return `Unknown client ID: ${clientId || '(missing)'}`;
+  }
+
+  if (!options.signingKey) {
+    return null;
+  }
+
+  const timestamp = Number(headers['x-vibe-timestamp']);
+  const signature = headers['x-vibe-signature'];
+  if (!Number.isFinite(timestamp) || typeof signature !== 'string') {
+    return 'Missing request signature';
+  }
+
+  const skew = Math.abs(Math.floor(Date.now() / 1000) - timestamp);
+  if (skew > (options.maxClockSkew ?? 300)) {
+    return 'Request timestamp outside the allowed window';
+  }
+
+  const expected = Buffer.from(
+    generateHmacSignature(options.signingKey, timestamp, envelope.method, envelope.endpoint)
+  );
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return 'Invalid request signature';
+  }
+
+  return null;
+}
+
+/**
+ * Serve `/v1/collections` and `/v1/schemas/*`, or null for other endpoints
+ */
+function serveSchemas(
+  request: MockRequest,
+  schemas: Record<string, CollectionSchema>,
+  hash: string
+): Response | null {
+  const pathname = new URL(request.endpoint, 'http://localhost').pathname;
+  const segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+  if (request.method.toUpperCase() !== 'GET' || segments[0] !== 'v1') {
+    return null;
+  }
+
+  if (segments[1] === 'collections' && segments.length === 2) {
+    return jsonResponse(200, { data: Object.keys(schemas).map((name) => ({ name })) });
+  }
+
+  if (segments[1] !== 'schemas') {
+    return null;
+  }
+
+  const [, , name, format] = segments;
+
+  if (name === 'hash' && segments.length === 3) {
+    return jsonResponse(200, { hash });
+  }
+
+  const schema = name ? schemas[name] : undefined;
+  if (!schema || segments.length > 4 || (format && format !== 'typescript')) {
+    return jsonResponse(404, { error: { message: `Schema not found: ${pathname}` } });
+  }
+
+  if (format === 'typescript') {
+    return new Response(schemaToTypeScript(name, schema), {
+      status: 200,
+      headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+    });
+  }
+
+  return jsonResponse(200, { data: schema });
+}
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+/**
+ * Read `{table}.json` fixture files from a directory
+ *
+ * Each file holds an array of documents, or `{ schema?, documents }` to
+ * override the inferred schema.
+ */
+function loadFixtures(dir: string): LocalVibeFixtures {
+  const root = path.resolve(dir);
+  const tables: LocalVibeFixtures['tables'] = {};
+  const schemas: Record<string, CollectionSchema> = {};
+
+  const files = fs
+    .readdirSync(root)
+    .filter((file) => file.endsWith('.json'))
+    .sort();
+
+  for (const file of files) {
+    const table = path.basename(file, '.json');
+    const content = JSON.parse(fs.readFileSync(path.join(root, file), 'utf8'));
+
+    if (Array.isArray(content)) {
+      tables[table] = content;
+    } else {
+      tables[table] = content.documents ?? [];
+      if (content.schema) {
+        schemas[table] = { ...content.schema, name: table };
+      }
+    }
+  }
+
+  return { tables, schemas };
+}
+
+/**
+ * Derive a schema for each table from its documents
+ */
+function inferSchemas(
+  tables: LocalVibeFixtures['tables']
+): Record<string, CollectionSchema> {
+  const schemas: Record<string, CollectionSchema> = {};
+
+  for (const [name, docs] of Object.entries(tables)) {
+    const keys = [...new Set(docs.flatMap((doc) => Object.keys(doc)))];
+
+    const fields = keys.map((key): SchemaField => {
+      const values = docs.map((doc) => doc[key]).filter((v) => v !== null && v !== undefined);
+      return {
+        name: key,
+        type: jsonType(values),
+        ...(values.length < docs.length && { nullable: true }),
+        ...(key === 'id' && { 'x-vibe-pk': true }),
+      };
+    });
+
+    schemas[name] = { name, fields };
+  }
+
+  return schemas;
+}
+
+/**
+ * JSON schema type shared by all values ('unknown' when they differ)
+ */
+function jsonType(values: unknown[]): string {
+  const types = new Set(
+    values.map((value) => {
+      if (Array.isArray(value)) return 'array';
+      if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+      return typeof value;
+    })
+  );
+
+  // Mixed integers and decimals are numbers
+  if (types.has('number')) {
+    types.delete('integer');
+  }
+
+  return types.size === 1 ? [...types][0] : 'unknown';
+}
+
+// =============================================================================
+// HTTP Helpers
+// =============================================================================
+
+function flattenHeaders(headers: http.IncomingHttpHeaders): Record<string, string> {
+  const flat: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined) {
+      flat[name] = Array.isArray(value) ? value.join(', ') : value;
+    }
+  }
+  return flat;
+}
+
+async function readJson(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString('utf8');
+  return text ? JSON.parse(text) : undefined;
+}
+
+/**
+ * Write a fetch Response to a Node response, streaming the body
+ */
+async function sendResponse(res: http.ServerResponse, response: Response): Promise<void> {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    headers[name] = value;
+  });
+  res.writeHead(response.status, headers);
+
+  if (!response.body) {
+    res.end();
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const cancel = () => {
+    reader.cancel().catch(() => undefined);
+  };
+  res.on('close', cancel);
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      res.write(value);
+    }
+  } finally {
+    res.off('close', cancel);
+    res.end();
+  }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -0,0 +1,112 @@
+import { ADMIN_ROLES } from '@vibe/client/edge';
+import { NextRequest } from 'next/server';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createVibeMiddleware } from './middleware';
+import type { VibeMiddlewareOptions } from './types';
+
+const routes: VibeMiddlewareOptions['routes'] = {
+  '/admin/:path*': ADMIN_ROLES,
+  '/api/admin/:path*': ADMIN_ROLES,
+  '/tenants/:clientId/:path*': { anyOf: ADMIN_ROLES, tenantParam: 'clientId' },
+};
+
+/** Tokens the test verifier accepts: `signed:` followed by the claims as JSON */
+function signed(claims: Record<string, unknown>): string {
+  return `signed:${JSON.stringify(claims)}`;
+}
+
+async function verifyToken(token: string): Promise<Record<string, unknown> | null> {
+  return token.startsWith('signed:') ? JSON.parse(token.slice('signed:'.length)) : null;
+}
+
+/** Unsigned JWT carrying `claims`, as anyone could forge one */
+function unsignedJwt(claims: Record<string, unknown>): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'none', typ: 'JWT' })}.${encode(claims)}.`;
+}
+
+function request(path: string, token?: string): NextRequest {
+  return new NextRequest(`http://app.test${path}`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+}
+
+const clientAdmin = { roles: ['vibe_client_admin'], tenant_id: 'acme' };
+
+describe('createVibeMiddleware', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('refuses guarded requests when it has no way to verify sessions', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const middleware = createVibeMiddleware({ routes });
+
+    const guarded = await middleware(request('/admin', unsignedJwt({ roles: ['payez_admin'] })));
+    const open = await middleware(request('/about'));
+
+    expect(guarded.status).toBe(500);
+    expect(open.headers.get('x-middleware-next')).toBe('1');
+  });
+
+  it('does not trust claims of a token the verifier rejects', async () => {
+    const middleware = createVibeMiddleware({ routes, verifyToken });
+
+    const response = await middleware(request('/admin', unsignedJwt({ roles: ['payez_admin'] })));
+
+    expect(response.status).toBe(307);
+    expect(response.headers.get('location')).toBe(
+      'http://app.test/api/auth/signin?callbackUrl=%2Fadmin'
+    );
+  });
+
+  it('treats a verifier that throws as a rejected token', async () => {
+    const middleware = createVibeMiddleware({
+      routes,
+      verifyToken: async () => {
+        throw new Error('signature verification failed');
+      },
+    });
+
+    const response = await middleware(request('/api/admin/users', signed(clientAdmin)));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('rejects expired tokens', async () => {
+    const middleware = createVibeMiddleware({ routes, verifyToken });
+    const expired = signed({ ...clientAdmin, exp: Math.floor(Date.now() / 1000) - 60 });
+
+    const response = await middleware(request('/api/admin/users', expired));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('lets verified sessions with a required role through', async () => {
+    const middleware = createVibeMiddleware({ routes, verifyToken });
+
+    const admin = await middleware(request('/admin/settings', signed(clientAdmin)));
+    const user = await middleware(request('/admin/settings', signed({ roles: ['vibe_app_user'] })));
+
+    expect(admin.headers.get('x-middleware-next')).toBe('1');
+    expect(user.status).toBe(403);
+  });
+
+  it.each([
+    ['their own tenant', '/tenants/acme/billing', clientAdmin, 'pass'],
+    ['another tenant', '/tenants/globex/billing', clientAdmin, 403],
+    ['a malformed tenant segment', '/tenants/%E0%A4%A/billing', clientAdmin, 403],
+    ['a session without a tenant', '/tenants/acme/billing', { roles: ['vibe_client_admin'] }, 403],
+    ['any tenant as platform admin', '/tenants/globex/billing', { roles: ['payez_admin'] }, 'pass'],
+  ])('scopes client admins to %s', async (_label, path, claims, expected) => {
+    const middleware = createVibeMiddleware({ routes, verifyToken });
+
+    const response = await middleware(request(path, signed(claims)));
+
+    if (expected === 'pass') {
+      expect(response.headers.get('x-middleware-next')).toBe('1');
+    } else {
+      expect(response.status).toBe(expected);
+    }
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * @vibe/next-plugin/middleware
+ *
+ * Next.js middleware that guards page routes by Vibe role. Kept in its own
+ * entry so the Edge bundle doesn't pull in the plugin's Node-only modules.
+ *
+ * @example
+ * ```typescript
+ * // middleware.ts
+ * import { ADMIN_ROLES, PLATFORM_ADMIN_ROLES } from '@vibe/client/edge';
+ * import { createVibeMiddleware } from '@vibe/next-plugin/middleware';
+ *
+ * export default createVibeMiddleware({
+ *   routes: {
+ *     '/admin/:path*': ADMIN_ROLES,
+ *     '/platform/:path*': PLATFORM_ADMIN_ROLES,
+ *   },
+ *   verifyToken: async (token) => (await jwtVerify(token, jwks)).payload,
+ * });
+ *
+ * export const config = { matcher: ['/admin/:path*', '/platform/:path*'] };
+ * ```
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import {
+  hasAllRoles,
+  hasAnyRole,
+  isPlatformAdmin,
+  meetsRoleLevel,
+  rolesFromClaims,
+  tenantFromClaims,
+} from '@vibe/client/edge';
+import type {
+  VibeMiddleware,
+  VibeMiddlewareOptions,
+  VibeMiddlewareSession,
+  VibeRouteGuard,
+  VibeRouteRequirement,
+} from './types';
+
+export type {
+  VibeMiddleware,
+  VibeMiddlewareOptions,
+  VibeMiddlewareSession,
+  VibeRouteGuard,
+  VibeRouteRequirement,
+} from './types';
+
+interface CompiledRoute {
+  pattern: string;
+  regex: RegExp;
+  params: string[];
+  guard: VibeRouteGuard;
+}
+
+/**
+ * Create a middleware that checks Vibe roles before a page renders
+ *
+ * Signed-out users are redirected to `signInUrl`; users missing a role are
+ * redirected to `forbiddenUrl` or get a 403. Requests under `/api/` get JSON
+ * 401/403 responses instead of redirects. Paths no route matches pass through.
+ *
+ * Tenant-scoped routes name the param holding the tenant: platform admins
+ * (`isPlatformAdmin`) may open any tenant, client admins only their own.
+ *
+ * Pass `verifyToken` (or `getSession`): without one, the middleware can't
+ * trust a token's roles and answers every guarded request with a 500.
+ *
+ * @example
+ * ```typescript
+ * export default createVibeMiddleware({
+ *   routes: {
+ *     '/admin/:path*': ADMIN_ROLES,
+ *     '/reports/:path*': 2, // at least vibe_client_admin
+ *     '/tenants/:clientId/:path*': { anyOf: ADMIN_ROLES, tenantParam: 'clientId' },
+ *   },
+ *   verifyToken: async (token) => (await jwtVerify(token, jwks)).payload,
+ * });
+ * ```
+ */
+export function createVibeMiddleware(options: VibeMiddlewareOptions): VibeMiddleware {
+  const routes = Object.entries(options.routes).map(([pattern, requirement]) =>
+    compileRoute(pattern, requirement)
+  );
+  const signInUrl = options.signInUrl ?? '/api/auth/signin';
+  const debug = options.debug ?? false;
+
+  return async (request) => {
+    const { pathname, search } = request.nextUrl;
+    const matched = routes
+      .map((route) => ({ route, match: route.regex.exec(pathname) }))
+      .filter((entry): entry is { route: CompiledRoute; match: RegExpExecArray } => !!entry.match);
+
+    if (matched.length === 0) {
+      return NextResponse.next();
+    }
+
+    if (!options.getSession && !options.verifyToken) {
+      // Unverified tokens could carry any role, so refuse rather than guess
+      console.error('[vibe-middleware] Pass verifyToken or getSession to check sessions');
+      return errorResponse(
+        500,
+        'Vibe middleware is not configured. Pass verifyToken or getSession.'
+      );
+    }
+
+    const isApi = pathname === '/api' || pathname.startsWith('/api/');
+    const session = options.getSession
+      ? await options.getSession(request)
+      : await sessionFromToken(request, options);
+
+    if (!session) {
+      if (isApi) {
+        return errorResponse(401, 'Authentication required');
+      }
+      const url = new URL(signInUrl, request.url);
+      url.searchParams.set('callbackUrl', pathname + search);
+      return NextResponse.redirect(url);
+    }
+
+    for (const { route, match } of matched) {
+      const denial = checkGuard(route, match, session);
+      if (!denial) continue;
+
+      if (debug) {
+        console.warn(`[vibe-middleware] Denied ${pathname} (${route.pattern}): ${denial.message}`);
+      }
+      if (options.forbiddenUrl && !isApi) {
+        return NextResponse.redirect(new URL(options.forbiddenUrl, request.url));
+      }
+      return errorResponse(403, denial.message, denial.details);
+    }
+
+    return NextResponse.next();
+  };
+}
+
+/**
+ * Reason a session fails a route's guard, or null when it passes
+ */
+function checkGuard(
+  route: CompiledRoute,
+  match: RegExpExecArray,
+  session: VibeMiddlewareSession
+): { message: string; details: Record<string, unknown> } | null {
+  const { anyOf, allOf, minLevel, tenantParam } = route.guard;
+
+  if (anyOf && !hasAnyRole(session.roles, anyOf)) {
+    return { message: 'Missing required role', details: { requiredRoles: anyOf } };
+  }
+  if (allOf && !hasAllRoles(session.roles, allOf)) {
+    return { message: 'Missing required role', details: { requiredRoles: allOf, all: true } };
+  }
+  if (minLevel !== undefined && !meetsRoleLevel(session.roles, minLevel)) {
+    return { message: 'Role level too low', details: { minLevel } };
+  }
+
+  if (tenantParam && !isPlatformAdmin(session.roles)) {
+    const index = route.params.indexOf(tenantParam);
+    const tenant = index >= 0 ? match[index + 1]?.split('/')[0] : undefined;
+    if (tenant) {
+      // A malformed segment matches no tenant
+      const decoded = decodeSegment(tenant);
+      if (decoded === null || decoded !== session.tenantId) {
+        return { message: 'Access is limited to your own tenant', details: { tenant } };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Compile a Next.js matcher pattern (`/admin/:path*`, `/t/:id`, `/a/:rest+`)
+ */
+function compileRoute(pattern: string, requirement: VibeRouteRequirement): CompiledRoute {
+  const params: string[] = [];
+  let source = '';
+
+  for (const segment of pattern.split('/').filter(Boolean)) {
+    const param = /^:(\w+)([*+?]?)$/.exec(segment);
+    if (!param) {
+      source += `/${segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`;
+      continue;
+    }
+
+    params.push(param[1]);
+    switch (param[2]) {
+      case '*':
+        source += '(?:/(.*))?';
+        break;
+      case '+':
+        source += '/(.+)';
+        break;
+      case '?':
+        source += '(?:/([^/]+))?';
+        break;
+      default:
+        source += '/([^/]+)';
+    }
+  }
+
+  const guard: VibeRouteGuard =
+    typeof requirement === 'number'
+      ? { minLevel: requirement }
+      : isRoleList(requirement)
+        ? { anyOf: requirement }
+        : requirement;
+
+  return { pattern, regex: new RegExp(`^${source || '/'}/?$`), params, guard };
+}
+
+/**
+ * Decode a path segment, or null when it isn't valid percent-encoding
+ */
+function decodeSegment(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+}
+
+function isRoleList(requirement: VibeRouteRequirement): requirement is readonly string[] {
+  return Array.isArray(requirement);
+}
+
+// =============================================================================
+// Session Token
+// =============================================================================
+
+/**
+ * Session from the JWT in the Authorization header or the token cookie
+ */
+async function sessionFromToken(
+  request: NextRequest,
+  options: VibeMiddlewareOptions
+): Promise<VibeMiddlewareSession | null> {
+  const authorization = request.headers.get('authorization');
+  const token = authorization?.startsWith('Bearer ')
+    ? authorization.slice('Bearer '.length)
+    : request.cookies.get(options.tokenCookie ?? 'vibe_token')?.value;
+
+  if (!token) {
+    return null;
+  }
+
+  let claims: Record<string, unknown> | null | undefined;
+  try {
+    claims = await options.verifyToken?.(token);
+  } catch {
+    // Verifiers such as jose's jwtVerify throw on a bad signature
+    return null;
+  }
+  if (!claims) {
+    return null;
+  }
+  if (typeof claims.exp === 'number' && claims.exp * 1000 <= Date.now()) {
+    return null;
+  }
+
+  return { roles: rolesFromClaims(claims), tenantId: tenantFromClaims(claims) };
+}
+
+function errorResponse(
+  status: number,
+  message: string,
+  details?: Record<string, unknown>
+): NextResponse {
+  return NextResponse.json({ error: { message, ...(details && { details }) } }, { status });
+}
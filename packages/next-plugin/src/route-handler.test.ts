@@ -0,0 +1,227 @@
+import { ADMIN_ROLES } from '@vibe/client';
+import { createMockVibeHandler, type MockRequest } from '@vibe/client/testing';
+import { describe, expect, it } from 'vitest';
+import { createVibeRouteHandler } from './route-handler';
+import type { VibeRouteHandlerOptions } from './types';
+
+const TABLES = '/v1/collections/vibe_app/tables';
+
+interface Upstream {
+  /** Requests forwarded to the IDP proxy, unwrapped */
+  requests: MockRequest[];
+  fetch: typeof fetch;
+}
+
+/**
+ * IDP proxy double serving the mock API; `override` can answer a request instead
+ */
+function upstream(
+  tables: Record<string, Array<Record<string, unknown>>>,
+  override?: (request: MockRequest) => Response | undefined
+): Upstream {
+  const api = createMockVibeHandler({ tables });
+  const requests: MockRequest[] = [];
+
+  const fetchImpl = async (_url: string | URL | Request, init?: RequestInit) => {
+    const envelope = JSON.parse(String(init?.body));
+    const request: MockRequest = {
+      method: envelope.method,
+      endpoint: envelope.endpoint,
+      headers: envelope.headers,
+      body: envelope.data ?? undefined,
+    };
+    requests.push(request);
+    return override?.(request) ?? api.handle(request);
+  };
+
+  return { requests, fetch: fetchImpl as typeof fetch };
+}
+
+function handlerFor(server: Upstream, options: Partial<VibeRouteHandlerOptions> = {}) {
+  return createVibeRouteHandler({
+    getSession: () => ({ id: 'u1', roles: ['vibe_app_user'] }),
+    idpUrl: 'http://idp.test',
+    clientId: 'test-client',
+    signingKey: 'bW9jay1zaWduaW5nLWtleQ==',
+    fetch: server.fetch,
+    policies: {
+      notes: { rowFilter: (user) => ({ owner_id: user.id }) },
+      products: { write: ADMIN_ROLES },
+    },
+    ...options,
+  });
+}
+
+function call(method: string, path: string, body?: unknown): Request {
+  return new Request(`http://app.test/api/vibe${path}`, {
+    method,
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  });
+}
+
+const notes = [
+  { id: 1, owner_id: 'u1', text: 'mine' },
+  { id: 2, owner_id: 'u2', text: 'theirs' },
+];
+
+describe('route handler policies', () => {
+  it('rejects writes without the policy role before forwarding', async () => {
+    const server = upstream({ products: [{ id: 1, name: 'Widget' }] });
+
+    const response = await handlerFor(server)(
+      call('PATCH', `${TABLES}/products/1`, { name: 'Gizmo' })
+    );
+
+    expect(response.status).toBe(403);
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it('adds the row filter to queries', async () => {
+    const server = upstream({ notes });
+
+    const response = await handlerFor(server)(call('POST', `${TABLES}/notes/query`, {}));
+    const body = (await response.json()) as { data: Array<{ id: number }> };
+
+    expect(response.status).toBe(200);
+    expect(body.data.map((note) => note.id)).toEqual([1]);
+  });
+
+  it('fills the row filter into new documents and refuses others', async () => {
+    const server = upstream({ notes: [] });
+    const handler = handlerFor(server);
+
+    expect((await handler(call('POST', `${TABLES}/notes`, { text: 'new' }))).status).toBe(201);
+    expect(server.requests[0].body).toEqual({ text: 'new', owner_id: 'u1' });
+
+    const foreign = await handler(call('POST', `${TABLES}/notes`, { text: 'x', owner_id: 'u2' }));
+    expect(foreign.status).toBe(403);
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('checks the stored document before a write', async () => {
+    const server = upstream({ notes });
+    const handler = handlerFor(server);
+
+    const own = await handler(call('PATCH', `${TABLES}/notes/1`, { text: 'edited' }));
+    expect(own.status).toBe(200);
+
+    const other = await handler(call('PATCH', `${TABLES}/notes/2`, { text: 'edited' }));
+    expect(other.status).toBe(403);
+
+    const moved = await handler(call('PATCH', `${TABLES}/notes/1`, { owner_id: 'u2' }));
+    expect(moved.status).toBe(403);
+
+    expect(server.requests.filter((request) => request.method === 'PATCH')).toHaveLength(1);
+  });
+
+  it('reports reads of other rows as missing', async () => {
+    const server = upstream({ notes });
+
+    const response = await handlerFor(server)(call('GET', `${TABLES}/notes/2`));
+
+    expect(response.status).toBe(404);
+  });
+
+  it('forwards writes to documents the server does not have', async () => {
+    const server = upstream({ notes });
+
+    const response = await handlerFor(server)(call('DELETE', `${TABLES}/notes/99`));
+
+    expect(response.status).toBe(404);
+    expect(server.requests.map((request) => request.method)).toEqual(['GET', 'DELETE']);
+  });
+
+  it.each([
+    [503, 503],
+    [429, 429],
+    [403, 403],
+    [500, 500],
+  ])('denies the write when the stored document fetch fails with %i', async (failure, status) => {
+    const server = upstream({ notes }, (request) =>
+      request.method === 'GET'
+        ? new Response(JSON.stringify({ error: { message: 'unavailable' } }), { status: failure })
+        : undefined
+    );
+
+    const response = await handlerFor(server)(
+      call('PATCH', `${TABLES}/notes/2`, { text: 'edited' })
+    );
+
+    expect(response.status).toBe(status);
+    expect(server.requests.map((request) => request.method)).toEqual(['GET']);
+  });
+
+  it('denies the write when the stored document is not JSON', async () => {
+    const server = upstream({ notes }, (request) =>
+      request.method === 'GET' ? new Response('<html>oops</html>', { status: 200 }) : undefined
+    );
+
+    const response = await handlerFor(server)(
+      call('PATCH', `${TABLES}/notes/2`, { text: 'edited' })
+    );
+
+    expect(response.status).toBe(502);
+    expect(server.requests.map((request) => request.method)).toEqual(['GET']);
+  });
+
+  it('checks the document the write addresses', async () => {
+    const server = upstream({ notes });
+
+    await handlerFor(server)(call('PATCH', `${TABLES}/notes/2%3Fx=1`, { text: 'edited' }));
+
+    const [check, write] = server.requests;
+    expect(check.endpoint).toBe(`${TABLES}/notes/2%3Fx%3D1`);
+    expect(write?.endpoint ?? check.endpoint).toBe(check.endpoint);
+  });
+});
+
+describe('route handler endpoints', () => {
+  it.each([
+    ['encoded dots', '/v1/collections/vibe_app/%2e%2e/%2e%2e/admin/users'],
+    ['plain dots', '/v1/collections/vibe_app/../../admin/users'],
+  ])('applies role rules after resolving %s', async (_label, path) => {
+    const server = upstream({});
+
+    const response = await handlerFor(server)(call('GET', path));
+
+    expect(response.status).toBe(403);
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it.each([
+    ['an encoded slash', `${TABLES}/notes/1%2F..%2F2`],
+    ['an encoded backslash traversal', `${TABLES}/notes/%2e%2e%5c%2e%2e`],
+    ['malformed encoding', `${TABLES}/notes/%E0%A4%A`],
+    ['another prefix', '/v1/schemas/notes'],
+  ])('rejects paths with %s', async (_label, path) => {
+    const server = upstream({ notes });
+
+    const response = await handlerFor(server, { rules: [] })(call('GET', path));
+
+    expect(response.status).toBe(404);
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it.each([
+    ['a slash', ['v1', 'collections', 'vibe_app', 'tables', 'notes', '1/../2']],
+    ['dots', ['v1', 'collections', 'vibe_app', '..', '..', 'admin', 'users']],
+  ])('rejects catch-all segments holding %s', async (_label, path) => {
+    const server = upstream({ notes });
+
+    const response = await handlerFor(server, { rules: [] })(call('GET', '/ignored'), {
+      params: { path },
+    });
+
+    expect(response.status).toBe(404);
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it('requires an admin role for admin endpoints by default', async () => {
+    const server = upstream({});
+
+    const response = await handlerFor(server)(call('GET', '/v1/admin/users'));
+
+    expect(response.status).toBe(403);
+    expect(server.requests).toHaveLength(0);
+  });
+});
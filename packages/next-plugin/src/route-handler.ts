@@ -0,0 +1,417 @@
+/**
+ * Vibe Route Handler
+ *
+ * Same-origin Next.js Route Handler that signs browser requests with the
+ * server-held HMAC key and forwards them to the IDP Vibe proxy, so the key
+ * never reaches the client bundle.
+ */
+
+import {
+  ADMIN_ROLES,
+  VibeError,
+  applyRowFilter,
+  authorizeCollection,
+  convertFiltersToVibeFormat,
+  hasAnyRole,
+  matchesFilter,
+  rowFilterError,
+  type PolicyOperation,
+} from '@vibe/client';
+import { generateHmacSignature } from './schema-fetcher';
+import type {
+  VibeRouteHandler,
+  VibeRouteHandlerOptions,
+  VibeRouteMethod,
+  VibeRouteRule,
+  VibeRouteSession,
+} from './types';
+
+/**
+ * Default role rules: admin endpoints require an admin role
+ */
+export const DEFAULT_ROUTE_RULES: VibeRouteRule[] = [{ match: '/v1/admin', roles: ADMIN_ROLES }];
+
+/** Endpoints the route forwards; anything else is rejected with 404 */
+const FORWARDED_PREFIXES = ['/v1/collections/', '/v1/admin/'];
+
+/** Request headers passed on to the Vibe endpoint */
+const ENDPOINT_HEADERS = ['accept', 'if-match', 'if-none-match', 'last-event-id'];
+
+/** Response headers passed back to the browser */
+const RESPONSE_HEADERS = ['content-type', 'etag', 'retry-after', 'cache-control'];
+
+/**
+ * Create a Route Handler for `app/api/vibe/[...path]/route.ts`
+ *
+ * Pair it with a browser client created with `routeUrl: '/api/vibe'`. The
+ * handler resolves the session, enforces role rules, signs the request and
+ * streams the IDP response back (including subscription streams).
+ *
+ * @example
+ * ```typescript
+ * // app/api/vibe/[...path]/route.ts
+ * import { createVibeRouteHandler } from '@vibe/next-plugin';
+ * import { auth } from '@/auth';
+ *
+ * export const runtime = 'nodejs';
+ *
+ * const handler = createVibeRouteHandler({
+ *   getSession: async () => {
+ *     const session = await auth();
+ *     return session ? { roles: session.user.roles, accessToken: session.accessToken } : null;
+ *   },
+ * });
+ *
+ * export { handler as GET, handler as POST, handler as PUT, handler as PATCH, handler as DELETE };
+ * ```
+ *
+ * ```typescript
+ * // Browser
+ * const vibe = createVibeClient({ routeUrl: '/api/vibe' });
+ * ```
+ */
+export function createVibeRouteHandler(options: VibeRouteHandlerOptions): VibeRouteHandler {
+  const rules = options.rules ?? DEFAULT_ROUTE_RULES;
+  const basePath = (options.basePath ?? '/api/vibe').replace(/\/$/, '');
+  const debug = options.debug ?? false;
+
+  return async (request, context) => {
+    const idpUrl = (options.idpUrl || process.env.IDP_URL || '').replace(/\/$/, '');
+    const clientId = options.clientId || process.env.VIBE_CLIENT_ID || '';
+    const signingKey = options.signingKey || process.env.VIBE_HMAC_KEY || '';
+
+    if (!idpUrl) {
+      return errorResponse(500, 'Vibe route is not configured. Set IDP_URL.');
+    }
+
+    const method = request.method.toUpperCase() as VibeRouteMethod;
+    const params = await context?.params;
+    const endpoint = resolveEndpoint(request, params?.path, basePath);
+
+    if (!endpoint || !FORWARDED_PREFIXES.some((prefix) => endpoint.startsWith(prefix))) {
+      return errorResponse(404, 'Unknown Vibe endpoint');
+    }
+
+    const session = await options.getSession(request);
+    if (!session) {
+      return errorResponse(401, 'Authentication required');
+    }
+
+    const denied = rules.find(
+      (rule) => appliesTo(rule, method, endpoint) && !hasAnyRole(session.roles, rule.roles)
+    );
+    if (denied) {
+      if (debug) {
+        console.warn(`[vibe-route] Denied ${method} ${endpoint}: requires ${denied.roles.join(' or ')}`);
+      }
+      return errorResponse(403, 'Missing required role', { requiredRoles: denied.roles });
+    }
+
+    let data: unknown = null;
+    const text = method === 'GET' ? '' : await request.text();
+    if (text) {
+      try {
+        data = JSON.parse(text);
+      } catch {
+        return errorResponse(400, 'Invalid JSON body');
+      }
+    }
+
+    const authorization = session.accessToken
+      ? `Bearer ${session.accessToken}`
+      : request.headers.get('authorization');
+
+    // Signed request to the IDP proxy
+    const send = (
+      upstreamMethod: VibeRouteMethod,
+      upstreamEndpoint: string,
+      upstreamData: unknown,
+      forwardHeaders: Record<string, string> = {}
+    ): Promise<Response> => {
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'X-Vibe-Client-Id': clientId,
+      };
+      if (authorization) {
+        headers['Authorization'] = authorization;
+      }
+      if (signingKey) {
+        const timestamp = Math.floor(Date.now() / 1000);
+        headers['X-Vibe-Timestamp'] = String(timestamp);
+        headers['X-Vibe-Signature'] = generateHmacSignature(
+          signingKey,
+          timestamp,
+          upstreamMethod,
+          upstreamEndpoint
+        );
+      }
+
+      const fetchImpl = options.fetch ?? fetch;
+      return fetchImpl(`${idpUrl}/api/vibe/proxy`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          endpoint: upstreamEndpoint,
+          method: upstreamMethod,
+          data: upstreamData,
+          headers: forwardHeaders,
+        }),
+        signal: request.signal,
+      });
+    };
+
+    const forwardHeaders: Record<string, string> = {};
+    for (const name of ENDPOINT_HEADERS) {
+      const value = request.headers.get(name);
+      if (value) {
+        forwardHeaders[name] = value;
+      }
+    }
+
+    if (debug) {
+      console.log(`[vibe-route] ${method} ${endpoint}`);
+    }
+
+    let upstream: Response;
+    try {
+      if (options.policies) {
+        const table = tableOf(endpoint);
+        if (table && options.policies[table.name]) {
+          data = await enforcePolicy(options, table, method, data, session, send);
+        }
+      }
+
+      upstream = await send(method, endpoint, data, forwardHeaders);
+    } catch (error) {
+      if (error instanceof VibeError) {
+        if (debug) {
+          console.warn(`[vibe-route] Denied ${method} ${endpoint}: ${error.message}`);
+        }
+        return errorResponse(error.status ?? 403, error.message, error.details);
+      }
+      if (debug) {
+        console.error(`[vibe-route] Upstream request failed:`, error);
+      }
+      return errorResponse(502, 'Vibe proxy unreachable');
+    }
+
+    const responseHeaders = new Headers();
+    for (const name of RESPONSE_HEADERS) {
+      const value = upstream.headers.get(name);
+      if (value) {
+        responseHeaders.set(name, value);
+      }
+    }
+
+    return new Response(upstream.body, { status: upstream.status, headers: responseHeaders });
+  };
+}
+
+interface TableEndpoint {
+  name: string;
+  /** Path segments after the table name */
+  rest: string[];
+  /** The same segments as sent, still URL-encoded */
+  encodedRest: string[];
+  /** Endpoint of the table itself */
+  base: string;
+}
+
+/**
+ * Apply a collection policy to a table request
+ *
+ * Query and subscribe bodies get the row filter added; new documents are
+ * filled and checked against it; requests for one document check the stored
+ * document first, and are denied when it can't be read.
+ *
+ * @returns The request body to forward
+ * @throws VibeError when the request is denied
+ */
+async function enforcePolicy(
+  options: VibeRouteHandlerOptions,
+  table: TableEndpoint,
+  method: VibeRouteMethod,
+  data: unknown,
+  session: VibeRouteSession,
+  send: (method: VibeRouteMethod, endpoint: string, data: unknown) => Promise<Response>
+): Promise<unknown> {
+  const [first, ...more] = table.rest;
+  const isQuery = method === 'POST' && (first === 'query' || first === 'subscribe');
+  const operation: PolicyOperation = method === 'GET' || isQuery ? 'read' : 'write';
+
+  const rowFilter = authorizeCollection(options.policies ?? {}, table.name, operation, session);
+  if (!rowFilter) {
+    return data;
+  }
+
+  if (isQuery && (first === 'query' || more.length === 0)) {
+    const body = (data ?? {}) as { filter?: unknown[] };
+    return { ...body, filter: [...(body.filter ?? []), ...convertFiltersToVibeFormat(rowFilter)] };
+  }
+
+  if (method === 'POST' && first === undefined) {
+    return applyRowFilter(data ?? {}, rowFilter, table.name);
+  }
+
+  if (first !== undefined && more.length === 0 && method !== 'POST') {
+    // Check the document the request will address, as it will be addressed
+    const current = await fetchStored(send, `${table.base}/${table.encodedRest[0]}`);
+    const changes = (data ?? {}) as Record<string, unknown>;
+
+    if (current && !matchesFilter(current, rowFilter)) {
+      // Reads of other rows look like missing documents
+      throw operation === 'read'
+        ? new VibeError({ code: 'NOT_FOUND', status: 404, message: 'Document not found' })
+        : rowFilterError(table.name, operation);
+    }
+    if (current && method !== 'DELETE' && !matchesFilter({ ...current, ...changes }, rowFilter)) {
+      throw rowFilterError(table.name, operation);
+    }
+    return data;
+  }
+
+  // Other endpoint shapes can't be limited to the row filter
+  throw rowFilterError(table.name, operation);
+}
+
+/**
+ * Table addressed by a proxy endpoint (`/v1/collections/{c}/tables/{t}/...`)
+ */
+function tableOf(endpoint: string): TableEndpoint | null {
+  const path = endpoint.split('?')[0];
+  const encoded = path.split('/').filter(Boolean);
+  const segments = encoded.map(decodeURIComponent);
+  if (segments[0] !== 'v1' || segments[1] !== 'collections' || segments[3] !== 'tables') {
+    return null;
+  }
+  if (!segments[4]) {
+    return null;
+  }
+  return {
+    name: segments[4],
+    rest: segments.slice(5),
+    encodedRest: encoded.slice(5),
+    base: path.split('/').slice(0, 6).join('/'),
+  };
+}
+
+/**
+ * Stored document for a policy check, or null when the server has none (404)
+ *
+ * Any other failure denies the request: the write can't be checked against
+ * the row filter without the current document.
+ *
+ * @throws VibeError with the upstream status, or SERVER_ERROR for a body
+ * that isn't a document
+ */
+async function fetchStored(
+  send: (method: VibeRouteMethod, endpoint: string, data: unknown) => Promise<Response>,
+  endpoint: string
+): Promise<Record<string, unknown> | null> {
+  const response = await send('GET', endpoint, null);
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw await VibeError.fromResponse(response);
+  }
+
+  const doc = unwrapStored(await response.text());
+  if (!doc) {
+    throw new VibeError({
+      code: 'SERVER_ERROR',
+      status: 502,
+      message: 'Vibe returned an unreadable document',
+    });
+  }
+  return doc;
+}
+
+/**
+ * Plain document from a single-document response (bare, `{ data }`, or a
+ * `document_id` envelope with JSON-string data)
+ */
+function unwrapStored(text: string): Record<string, unknown> | null {
+  let doc = parseJson(text) as Record<string, unknown> | null;
+  if (doc && typeof doc === 'object' && 'data' in doc && !('document_id' in doc)) {
+    doc = doc.data as Record<string, unknown> | null;
+  }
+  if (!doc || typeof doc !== 'object') {
+    return null;
+  }
+  if ('document_id' in doc) {
+    const data = typeof doc.data === 'string' ? parseJson(doc.data) : doc.data;
+    return data && typeof data === 'object' ? { id: doc.document_id, ...data } : null;
+  }
+  return doc;
+}
+
+/** Parsed JSON, or undefined when the text isn't JSON */
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Vibe endpoint for a route request, from the catch-all `path` param or the URL
+ *
+ * Segments are checked decoded, so encoded dots and slashes can't address
+ * endpoints outside the forwarded prefixes.
+ */
+function resolveEndpoint(
+  request: Request,
+  path: string[] | undefined,
+  basePath: string
+): string | null {
+  const url = new URL(request.url);
+  let segments: Array<string | null>;
+
+  if (path) {
+    // Next.js decodes the catch-all segments
+    segments = path;
+  } else if (url.pathname.startsWith(`${basePath}/`)) {
+    segments = url.pathname.slice(basePath.length + 1).split('/').map(decodeSegment);
+  } else {
+    return null;
+  }
+
+  // Reject traversal and segments that would split into several (some
+  // servers treat a backslash as a separator too)
+  const valid = segments.every(
+    (segment) => segment !== null && segment !== '..' && segment !== '.' && !/[/\\]/.test(segment)
+  );
+  if (!valid) {
+    return null;
+  }
+
+  return `/${(segments as string[]).map(encodeURIComponent).join('/')}${url.search}`;
+}
+
+/** Decoded URL path segment, or null when it is malformed */
+function decodeSegment(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+}
+
+function appliesTo(rule: VibeRouteRule, method: VibeRouteMethod, endpoint: string): boolean {
+  if (rule.methods && !rule.methods.includes(method)) {
+    return false;
+  }
+  const path = endpoint.split('?')[0];
+  return typeof rule.match === 'string'
+    ? path === rule.match || path.startsWith(`${rule.match.replace(/\/$/, '')}/`)
+    : rule.match.test(path);
+}
+
+function errorResponse(status: number, message: string, details?: Record<string, unknown>): Response {
+  return new Response(JSON.stringify({ error: { message, ...(details && { details }) } }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -13,6 +13,8 @@ interface FetchOptions {
   clientId: string;
   signingKey: string;
   debug: boolean;
+  /** Custom fetch implementation. Default: globalThis.fetch */
+  fetch?: typeof fetch;
   // Legacy direct API (deprecated)
   apiUrl?: string;
   clientSecret?: string;
@@ -21,7 +23,7 @@ interface FetchOptions {
 /**
  * Generate HMAC-SHA256 signature for request authentication
  */
-function generateHmacSignature(
+export function generateHmacSignature(
   signingKey: string,
   timestamp: number,
   method: string,
@@ -69,7 +71,9 @@ async function proxyRequest(
     console.log(`[vibe-plugin] Proxy request: ${method} ${endpoint}`);
   }
 
-  return fetch(proxyUrl, {
+  const fetchImpl = options.fetch ?? fetch;
+
+  return fetchImpl(proxyUrl, {
     method: 'POST',
     headers,
     body: JSON.stringify(body),
@@ -89,7 +93,9 @@ async function directRequest(
     console.log(`[vibe-plugin] Direct request (deprecated): GET ${url}`);
   }
 
-  return fetch(url, {
+  const fetchImpl = options.fetch ?? fetch;
+
+  return fetchImpl(url, {
     method: 'GET',
     headers: {
       'Content-Type': 'application/json',
@@ -259,7 +265,7 @@ async function fetchAndConvertSchema(
 /**
  * Convert a JSON schema to TypeScript interface
  */
-function schemaToTypeScript(collection: string, schema: any): string {
+export function schemaToTypeScript(collection: string, schema: any): string {
   const interfaceName = pascalCase(collection);
   const fields = schema.fields || schema.properties || [];
 
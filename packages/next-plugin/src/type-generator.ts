@@ -18,6 +18,7 @@ interface GeneratorOptions {
   outputDir: string;
   collections?: string[];
   debug: boolean;
+  fetch?: typeof fetch;
   // Legacy (deprecated)
   apiUrl?: string;
   clientSecret?: string;
@@ -39,7 +40,7 @@ export async function generateTypes(options: GeneratorOptions): Promise<TypeGene
     fs.mkdirSync(absoluteOutputDir, { recursive: true });
 
     // Fetch options for schema fetcher
-    const fetchOptions = { idpUrl, clientId, signingKey, debug, apiUrl, clientSecret };
+    const fetchOptions = { idpUrl, clientId, signingKey, debug, fetch: options.fetch, apiUrl, clientSecret };
 
     // Fetch collections to generate types for
     let collections: string[];
@@ -164,11 +165,14 @@ export interface VibeCollections {\n`;
   // Type augmentation for @vibe/client
   output += `/**
  * Type augmentation for @vibe/client
- * Enables type-safe collection access without explicit generics.
+ * Enables type-safe collection access without explicit generics
+ * and typed \`expand\` results.
  */
 declare module '@vibe/client' {
   import type { Collection } from '@vibe/client';
 
+  interface VibeSchema extends VibeCollections {}
+
   interface VibeClient {
     collection<K extends keyof VibeCollections>(name: K): Collection<VibeCollections[K]>;
   }
@@ -242,6 +246,7 @@ export function resolveGeneratorOptions(options: VibePluginOptions): GeneratorOp
     outputDir,
     collections: options.collections,
     debug,
+    fetch: options.fetch,
     // Legacy
     apiUrl: apiUrl.replace(/\/$/, ''),
     clientSecret,
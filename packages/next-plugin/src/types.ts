@@ -3,6 +3,8 @@
  */
 
 import type { NextConfig } from 'next';
+import type { NextRequest, NextResponse } from 'next/server';
+import type { PolicyUser, VibePolicies } from '@vibe/client';
 
 export interface VibePluginOptions {
   /** IDP URL for proxy endpoint. Default: process.env.IDP_URL */
@@ -34,6 +36,9 @@ export interface VibePluginOptions {
 
   /** Enable debug logging. Default: false */
   debug?: boolean;
+
+  /** Custom fetch implementation for schema requests. Default: globalThis.fetch */
+  fetch?: typeof fetch;
 }
 
 export interface SchemaField {
@@ -59,4 +64,184 @@ export interface TypeGenerationResult {
   error?: string;
 }
 
+export interface LocalVibeServerOptions {
+  /** Port to listen on (0 picks a free port). Default: 4010 */
+  port?: number;
+
+  /** Host to bind. Default: 127.0.0.1 */
+  host?: string;
+
+  /**
+   * Fixture directory with one `{table}.json` file per table, or a seed object.
+   * A file holds an array of documents or `{ schema?, documents }`.
+   */
+  fixtures?: string | LocalVibeFixtures;
+
+  /** Client ID proxy requests must send. Default: any */
+  clientId?: string;
+
+  /** HMAC signing key (base64 encoded). When set, proxy requests must be signed. */
+  signingKey?: string;
+
+  /** Accepted clock skew for signed requests, in seconds. Default: 300 */
+  maxClockSkew?: number;
+
+  /** Enable request logging. Default: false */
+  debug?: boolean;
+}
+
+export interface LocalVibeFixtures {
+  /** Documents per table */
+  tables: Record<string, Record<string, unknown>[]>;
+
+  /** Schemas per table. Default: inferred from the documents */
+  schemas?: Record<string, CollectionSchema>;
+}
+
+export interface LocalVibeServer {
+  /** Base URL, usable as both IDP_URL and VIBE_API_URL */
+  url: string;
+
+  port: number;
+
+  /** Restore the fixtures, discarding writes */
+  reset(): void;
+
+  /** Stop the server and close open subscription streams */
+  close(): Promise<void>;
+}
+
+export type VibeRouteMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface VibeRouteSession extends PolicyUser {
+  /** Roles of the signed-in user */
+  roles: string[];
+
+  /** Access token forwarded to the IDP as a Bearer token. Default: the request's Authorization header */
+  accessToken?: string;
+}
+
+export interface VibeRouteRule {
+  /** Endpoint prefix (e.g. '/v1/admin') or pattern the rule applies to */
+  match: string | RegExp;
+
+  /** Methods the rule applies to. Default: all */
+  methods?: VibeRouteMethod[];
+
+  /** Roles allowed (any of) */
+  roles: readonly string[];
+}
+
+export interface VibeRouteHandlerOptions {
+  /**
+   * Resolve the caller's session. Return null to reject the request with 401;
+   * return `{ roles: [] }` to allow anonymous access.
+   */
+  getSession: (request: Request) => VibeRouteSession | null | Promise<VibeRouteSession | null>;
+
+  /** Role rules; every rule matching a request must pass. Default: DEFAULT_ROUTE_RULES */
+  rules?: VibeRouteRule[];
+
+  /** Collection access policies, evaluated against the session (same format as the client's) */
+  policies?: VibePolicies;
+
+  /** IDP URL to forward to. Default: process.env.IDP_URL */
+  idpUrl?: string;
+
+  /** Vibe Client ID. Default: process.env.VIBE_CLIENT_ID */
+  clientId?: string;
+
+  /** HMAC Signing Key (base64 encoded). Default: process.env.VIBE_HMAC_KEY */
+  signingKey?: string;
+
+  /** Path the route is mounted at, used when the route has no `path` param. Default: '/api/vibe' */
+  basePath?: string;
+
+  /** Custom fetch implementation. Default: globalThis.fetch */
+  fetch?: typeof fetch;
+
+  /** Enable debug logging. Default: false */
+  debug?: boolean;
+}
+
+export type VibeRouteHandler = (
+  request: Request,
+  context?: { params?: VibeRouteParams | Promise<VibeRouteParams> }
+) => Promise<Response>;
+
+export interface VibeRouteParams {
+  path?: string[];
+}
+
+/**
+ * Roles a page route requires: any of a list of roles, a minimum
+ * `ROLE_HIERARCHY` level, or a guard combining checks
+ */
+export type VibeRouteRequirement = readonly string[] | number | VibeRouteGuard;
+
+export interface VibeRouteGuard {
+  /** Roles allowed (any of) */
+  anyOf?: readonly string[];
+
+  /** Roles required (all of) */
+  allOf?: readonly string[];
+
+  /** Minimum `ROLE_HIERARCHY` level */
+  minLevel?: number;
+
+  /**
+   * Route param holding the tenant (client ID) the page belongs to. Platform
+   * admins may open any tenant; everyone else only their own.
+   */
+  tenantParam?: string;
+}
+
+export interface VibeMiddlewareSession {
+  /** Roles of the signed-in user */
+  roles: string[];
+
+  /** Tenant (client ID) the user belongs to */
+  tenantId?: string | null;
+}
+
+export interface VibeMiddlewareOptions {
+  /**
+   * Requirements by route pattern (Next.js matcher syntax, e.g.
+   * '/admin/:path*'). Every pattern matching a request must pass.
+   */
+  routes: Record<string, VibeRouteRequirement>;
+
+  /**
+   * Resolve the caller's session. Default: claims of the JWT in the
+   * Authorization header or the `tokenCookie` cookie, checked with
+   * `verifyToken`. One of the two is required.
+   */
+  getSession?: (
+    request: NextRequest
+  ) => VibeMiddlewareSession | null | Promise<VibeMiddlewareSession | null>;
+
+  /** Cookie holding the session JWT. Default: 'vibe_token' */
+  tokenCookie?: string;
+
+  /**
+   * Verify the session JWT's signature and return its claims, or null (or
+   * throw) to reject it. Required unless `getSession` is given: without
+   * either, every guarded request is refused.
+   */
+  verifyToken?: (
+    token: string
+  ) => Record<string, unknown> | null | Promise<Record<string, unknown> | null>;
+
+  /** Page to redirect signed-out users to (with `callbackUrl`). Default: '/api/auth/signin' */
+  signInUrl?: string;
+
+  /** Page to redirect users missing a role to. Default: respond 403 */
+  forbiddenUrl?: string;
+
+  /** Enable debug logging. Default: false */
+  debug?: boolean;
+}
+
+export type VibeMiddleware = (request: NextRequest) => Promise<NextResponse>;
+
 export type WithVibeConfig = (nextConfig?: NextConfig) => NextConfig;
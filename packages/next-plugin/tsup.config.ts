@@ -8,14 +8,22 @@ export default defineConfig([
     dts: true,
     sourcemap: true,
     clean: true,
-    external: ['next', 'chokidar'],
+    external: ['next', 'chokidar', '@vibe/client'],
+  },
+  // Middleware entry (Edge runtime - no Node-only imports)
+  {
+    entry: ['src/middleware.ts'],
+    format: ['cjs', 'esm'],
+    dts: true,
+    sourcemap: true,
+    external: ['next', '@vibe/client'],
   },
   // CLI entry
   {
     entry: ['src/cli.ts'],
     format: ['cjs'],
     sourcemap: true,
-    external: ['chokidar'],
+    external: ['chokidar', '@vibe/client'],
     banner: {
       js: '#!/usr/bin/env node',
     },